@@ -0,0 +1,21 @@
+import { backfillRollups } from "./services/metrics";
+import { db } from "./database/connection";
+import { logger } from "./utils/logger";
+
+// Rebuilds the daily rollups of all history, or from the day given as
+// first argument (YYYY-MM-DD), e.g. `npm run backfill -- 2024-01-01`
+async function main() {
+  const arg = process.argv[2];
+  const from = arg ? new Date(arg) : null;
+  if (from && isNaN(from.getTime())) {
+    throw new Error(`Invalid start day: ${arg}`);
+  }
+
+  await backfillRollups(from);
+  await db.pool.end();
+}
+
+main().catch((error) => {
+  logger.error("Rollup backfill failed:", error);
+  process.exit(1);
+});
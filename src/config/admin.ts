@@ -0,0 +1,14 @@
+import dotenv from "dotenv";
+
+dotenv.config();
+
+export const adminConfig = {
+  // Credentials for the admin pages. Login is disabled while no
+  // password is configured.
+  username: process.env.ADMIN_USERNAME || "admin",
+  password: process.env.ADMIN_PASSWORD || "",
+  sessionSecret: process.env.SESSION_SECRET || "",
+  sessionMaxAgeHours: parseFloat(process.env.SESSION_MAX_AGE_HOURS || "12"),
+  // Only send the session cookie over HTTPS
+  secureCookie: process.env.SESSION_SECURE_COOKIE === "true",
+};
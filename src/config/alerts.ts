@@ -0,0 +1,35 @@
+import dotenv from "dotenv";
+import { PublisherName } from "../types";
+
+dotenv.config();
+
+export const alertConfig = {
+  // Channels failure alerts are sent to besides the log, e.g.
+  // ALERT_CHANNELS=slack,discord. Alerts are for the team, so Twitter is
+  // never accepted here. Unknown names stop the bot on startup.
+  channels: (process.env.ALERT_CHANNELS || "")
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter((item) => item && item !== "twitter") as Exclude<
+    PublisherName,
+    "twitter"
+  >[],
+  // Rates of the orders matched in this many hours are checked...
+  windowHours: parseFloat(process.env.FAILURE_ALERT_WINDOW_HOURS || "24"),
+  // ...against the rates of this many days before them
+  baselineDays: parseFloat(process.env.FAILURE_ALERT_BASELINE_DAYS || "7"),
+  // Orders younger than this are left out. It must cover the longest
+  // refund timelock: before it passes, an order that will be refunded
+  // still counts as expired, so younger orders inflate expiries and hide
+  // refunds.
+  delayHours: parseFloat(process.env.FAILURE_ALERT_DELAY_HOURS || "48"),
+  // Chains and routes with fewer orders in the window aren't checked, and
+  // fall back to the overall baseline with fewer orders in the baseline
+  minOrders: parseInt(process.env.FAILURE_ALERT_MIN_ORDERS || "20"),
+  // A rate spikes when it is this many times its baseline...
+  spikeFactor: parseFloat(process.env.FAILURE_ALERT_SPIKE_FACTOR || "2"),
+  // ...and at least this much higher in absolute terms (0.05 = 5 points)
+  minIncrease: parseFloat(process.env.FAILURE_ALERT_MIN_INCREASE || "0.05"),
+  // The same spike is alerted at most once within this many hours
+  cooldownHours: parseFloat(process.env.FAILURE_ALERT_COOLDOWN_HOURS || "6"),
+};
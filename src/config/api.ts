@@ -0,0 +1,17 @@
+import dotenv from "dotenv";
+
+dotenv.config();
+
+export const apiConfig = {
+  // Bearer token for the JSON API, for clients that can't log in as
+  // admin such as dashboards. Admin sessions are accepted as well.
+  token: process.env.API_TOKEN || "",
+  // Largest number of time buckets one timeseries request may span
+  maxTimeseriesBuckets: parseInt(
+    process.env.API_MAX_TIMESERIES_BUCKETS || "2000",
+  ),
+  // Range returned when a timeseries request has no start
+  defaultTimeseriesDays: parseFloat(
+    process.env.API_DEFAULT_TIMESERIES_DAYS || "7",
+  ),
+};
@@ -0,0 +1,87 @@
+import dotenv from "dotenv";
+import path from "path";
+import { AnimationFormat, ImageFormat } from "../types";
+import { parseChoice } from "./env";
+
+dotenv.config();
+
+const parseList = (value: string): number[] =>
+  value
+    .split(",")
+    .map((item) => parseFloat(item.trim()))
+    .filter((item) => !isNaN(item))
+    .sort((a, b) => a - b);
+
+const IMAGE_FORMATS: ImageFormat[] = ["png", "jpeg"];
+const ANIMATION_FORMATS: AnimationFormat[] = ["gif", "mp4"];
+
+export const botConfig = {
+  assetsApiUrl:
+    process.env.ASSETS_API_URL || "https://testnet.api.hashira.io/info/assets",
+  // Posting rules as JSON, or as YAML with a .yaml or .yml extension
+  rulesFile:
+    process.env.POSTING_RULES_FILE ||
+    path.join(__dirname, "../../posting_rules.json"),
+  orderWatcher: {
+    batchSize: parseInt(process.env.ORDER_WATCHER_BATCH_SIZE || "100"),
+    // ISO timestamp to start from when no cursor has been persisted yet.
+    // Defaults to the time of the first boot so history is not announced.
+    startFrom: process.env.ORDER_WATCHER_START_FROM || "",
+    // Orders are announced once both swaps are redeemed, which can be
+    // long after they were matched, so orders matched within this many
+    // hours are re-scanned on every poll
+    settlementHours: parseFloat(
+      process.env.ORDER_WATCHER_SETTLEMENT_HOURS || "48",
+    ),
+    // Orders that fail to process are retried on the next polls, and
+    // given up on after this many attempts
+    maxAttempts: parseInt(process.env.ORDER_WATCHER_MAX_ATTEMPTS || "5"),
+  },
+  milestones: {
+    volume: parseList(process.env.VOLUME_MILESTONES || "1000000,10000000"),
+    orders: parseList(process.env.ORDER_MILESTONES || "10000,100000"),
+  },
+  mentions: {
+    // Minimum time between two replies to the same user
+    cooldownMinutes: parseFloat(process.env.MENTION_COOLDOWN_MINUTES || "10"),
+    // Longest period "stats <n>d" accepts
+    maxStatsDays: parseInt(process.env.MENTION_MAX_STATS_DAYS || "90"),
+  },
+  engagement: {
+    // Metrics are fetched for tweets posted within this many days
+    trackingDays: parseFloat(process.env.ENGAGEMENT_TRACKING_DAYS || "7"),
+  },
+  media: {
+    imageFormat: parseChoice("IMAGE_FORMAT", IMAGE_FORMATS, "png"),
+    // Between 0 and 1, higher is larger and sharper
+    jpegQuality: parseFloat(process.env.JPEG_QUALITY || "0.9"),
+    animationFormat: parseChoice("ANIMATION_FORMAT", ANIMATION_FORMATS, "gif"),
+    animationSeconds: parseFloat(process.env.ANIMATION_SECONDS || "3"),
+    animationFps: parseInt(process.env.ANIMATION_FPS || "20"),
+    // Animations are encoded with ffmpeg, which must be installed;
+    // its availability is checked on startup
+    ffmpegPath: process.env.FFMPEG_PATH || "ffmpeg",
+  },
+  // Number of entries on the chain and route leaderboards
+  leaderboardSize: parseInt(process.env.LEADERBOARD_SIZE || "5"),
+  // Number of weekly retention cohorts reported
+  retentionWeeks: parseInt(process.env.RETENTION_WEEKS || "8"),
+  rollups: {
+    // Orders can still be refunded or expire after they were matched, so
+    // each update rebuilds the days matched within this many hours of the
+    // previous update as well
+    settlementHours: parseFloat(process.env.ROLLUP_SETTLEMENT_HOURS || "48"),
+    // All-time metrics are read from the orders instead when the rollups
+    // weren't updated for this many hours, e.g. because the job failed
+    maxAgeHours: parseFloat(process.env.ROLLUP_MAX_AGE_HOURS || "1"),
+  },
+  retry: {
+    maxAttempts: parseInt(process.env.RETRY_MAX_ATTEMPTS || "5"),
+    baseDelayMs: parseInt(process.env.RETRY_BASE_DELAY_MS || "60000"),
+  },
+  approval: {
+    // High-volume order posts wait in the approval queue when enabled
+    required: process.env.ORDER_APPROVAL_REQUIRED !== "false",
+    expiryHours: parseFloat(process.env.APPROVAL_EXPIRY_HOURS || "24"),
+  },
+};
@@ -0,0 +1,18 @@
+/**
+ * Reads a setting that must be one of a fixed set of values, so a typo
+ * stops the bot on startup instead of falling back to another mode
+ * @throws Error naming the setting and the accepted values
+ */
+export function parseChoice<T extends string>(
+  name: string,
+  allowed: readonly T[],
+  fallback: T,
+): T {
+  const value = process.env[name] || fallback;
+  if (!allowed.includes(value as T)) {
+    throw new Error(
+      `${name} must be one of ${allowed.join(", ")}, got '${value}'`,
+    );
+  }
+  return value as T;
+}
@@ -0,0 +1,44 @@
+import dotenv from "dotenv";
+import { ChannelRoute, PublisherName } from "../types";
+
+dotenv.config();
+
+const parseChannels = (value: string): PublisherName[] =>
+  value
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean) as PublisherName[];
+
+/**
+ * Reads the channels a kind of post is published to, e.g.
+ * CHANNELS_DAILY_SUMMARY=twitter,discord. Defaults to Twitter only.
+ */
+const channels = (name: string): PublisherName[] =>
+  parseChannels(process.env[`CHANNELS_${name}`] || "twitter");
+
+export const publisherConfig = {
+  // Base URLs can point at a local stub server for testing
+  discord: {
+    baseUrl: process.env.DISCORD_BASE_URL || "https://discord.com/api",
+    webhookId: process.env.DISCORD_WEBHOOK_ID || "",
+    webhookToken: process.env.DISCORD_WEBHOOK_TOKEN || "",
+  },
+  telegram: {
+    baseUrl: process.env.TELEGRAM_BASE_URL || "https://api.telegram.org",
+    botToken: process.env.TELEGRAM_BOT_TOKEN || "",
+    chatId: process.env.TELEGRAM_CHAT_ID || "",
+  },
+  slack: {
+    baseUrl: process.env.SLACK_BASE_URL || "https://hooks.slack.com",
+    // Path of the incoming webhook, e.g. /services/T000/B000/XXXX
+    webhookPath: process.env.SLACK_WEBHOOK_PATH || "",
+  },
+  routing: {
+    order: channels("ORDER"),
+    dailySummary: channels("DAILY_SUMMARY"),
+    weeklyRecap: channels("WEEKLY_RECAP"),
+    monthlyRecap: channels("MONTHLY_RECAP"),
+    detailedReport: channels("DETAILED_REPORT"),
+    milestone: channels("MILESTONE"),
+  } as Record<ChannelRoute, PublisherName[]>,
+};
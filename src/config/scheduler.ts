@@ -0,0 +1,40 @@
+import dotenv from "dotenv";
+
+dotenv.config();
+
+const defaultTimezone = process.env.SCHEDULER_TIMEZONE || "UTC";
+
+/**
+ * Reads the schedule for a job from the environment, using the job's
+ * upper-cased name as prefix, e.g. DAILY_SUMMARY_CRON and DAILY_SUMMARY_TZ
+ */
+const jobSchedule = (
+  prefix: string,
+  defaultCron: string,
+  defaultEnabled: boolean = true,
+) => ({
+  cron: process.env[`${prefix}_CRON`] || defaultCron,
+  timezone: process.env[`${prefix}_TZ`] || defaultTimezone,
+  enabled: process.env[`${prefix}_ENABLED`]
+    ? process.env[`${prefix}_ENABLED`] !== "false"
+    : defaultEnabled,
+});
+
+export const schedulerConfig = {
+  timezone: defaultTimezone,
+  jobs: {
+    dailySummary: jobSchedule("DAILY_SUMMARY", "0 14 * * *"),
+    orderWatcher: jobSchedule("ORDER_WATCHER", "*/10 * * * * *"),
+    weeklyRecap: jobSchedule("WEEKLY_RECAP", "0 15 * * 1"),
+    monthlyRecap: jobSchedule("MONTHLY_RECAP", "0 15 1 * *"),
+    milestones: jobSchedule("MILESTONES", "30 * * * *"),
+    retryQueue: jobSchedule("RETRY_QUEUE", "* * * * *"),
+    engagement: jobSchedule("ENGAGEMENT", "15 * * * *"),
+    mentions: jobSchedule("MENTIONS", "*/2 * * * *"),
+    detailedReport: jobSchedule("DETAILED_REPORT", "0 16 * * 1", false),
+    rollups: jobSchedule("ROLLUPS", "*/15 * * * *"),
+    failureAlerts: jobSchedule("FAILURE_ALERTS", "*/30 * * * *"),
+  },
+};
+
+export type JobSchedule = ReturnType<typeof jobSchedule>;
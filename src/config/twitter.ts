@@ -1,8 +1,42 @@
 import dotenv from "dotenv";
+import path from "path";
 import { TwitterApi } from "twitter-api-v2";
+import { PostRoute } from "../types";
+import { parseChoice } from "./env";
 
 dotenv.config();
 
+export const PUBLISH_MODES = ["live", "dry-run"] as const;
+export type PublishMode = (typeof PUBLISH_MODES)[number];
+export const TOKEN_STORE_BACKENDS = ["file", "postgres"] as const;
+export type TokenStoreBackend = (typeof TOKEN_STORE_BACKENDS)[number];
+
+const parseAccounts = (value: string): string[] =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// Names of the accounts the bot manages, e.g. "mainnet,testnet".
+// The first one is the default account.
+const accounts = parseAccounts(process.env.TWITTER_ACCOUNTS || "default");
+
+/**
+ * Reads the accounts a kind of post is published to, e.g. ROUTE_ORDER.
+ * Defaults to the default account.
+ * @throws Error when the route names an account that isn't configured
+ */
+const route = (name: string): string[] => {
+  const routed = parseAccounts(process.env[`ROUTE_${name}`] || accounts[0]);
+  const unknown = routed.filter((account) => !accounts.includes(account));
+  if (unknown.length > 0) {
+    throw new Error(
+      `ROUTE_${name} names unknown accounts: ${unknown.join(", ")}. Accounts in TWITTER_ACCOUNTS: ${accounts.join(", ")}`,
+    );
+  }
+  return routed;
+};
+
 export const twitterConfig = {
   apiKey: process.env.TWITTER_API_KEY || "",
   apiSecret: process.env.TWITTER_API_SECRET || "",
@@ -11,6 +45,33 @@ export const twitterConfig = {
   userToken: process.env.USER_TOKEN || "",
   clientId: process.env.CLIENT_ID || "",
   clientSecret: process.env.CLIENT_SECRET || "",
+  // "live" posts to Twitter, "dry-run" writes posts to the outbox directory
+  publishMode: parseChoice("PUBLISH_MODE", PUBLISH_MODES, "live"),
+  outboxDir: process.env.OUTBOX_DIR || path.join(__dirname, "../../outbox"),
+  tokenStore: {
+    backend: parseChoice("TOKEN_STORE", TOKEN_STORE_BACKENDS, "file"),
+    // Secret the token encryption key is derived from
+    secret: process.env.TOKEN_ENCRYPTION_KEY || "",
+    file:
+      process.env.TOKEN_STORE_FILE || path.join(__dirname, "../../tokens.enc"),
+    // Plaintext token file of earlier versions, imported once on startup
+    legacyFile:
+      process.env.LEGACY_TOKENS_FILE || path.join(__dirname, "../tokens.json"),
+  },
+  callbackURL:
+    process.env.TWITTER_CALLBACK_URL || "http://localhost:3000/callback",
+  accounts,
+  defaultAccount: accounts[0],
+  routing: {
+    order: route("ORDER"),
+    dailySummary: route("DAILY_SUMMARY"),
+    weeklyRecap: route("WEEKLY_RECAP"),
+    monthlyRecap: route("MONTHLY_RECAP"),
+    detailedReport: route("DETAILED_REPORT"),
+    milestone: route("MILESTONE"),
+    // Accounts that answer mention commands
+    mentionReply: route("MENTION_REPLY"),
+  } as Record<PostRoute, string[]>,
 };
 
 export const getClient = () => {
@@ -1,443 +1,564 @@
 import { db } from "./connection";
-import { SuccessfulOrder, SwapMetrics } from "../types";
+import {
+  MetricsPeriod,
+  PeriodMetrics,
+  LeaderboardEntry,
+  LeaderboardKind,
+  LeaderboardRow,
+  FailureCounts,
+  Leaderboards,
+  RetentionCohort,
+  RollupTotals,
+  TimeseriesPoint,
+  TimeseriesGroupBy,
+  TimeseriesQuery,
+  UserMetrics,
+  SwapMetrics,
+} from "../types";
 import { logger } from "../utils/logger";
-import { AssetConfig, getAssetInfo } from "../services/api";
+import { getAssetInfo, HashiraNetworkResponse } from "../services/api";
+import { FIXED_DECIMALS } from "../services/orderValuation";
+import { botConfig } from "../config/bot";
 import { queries } from "./queries";
-import { formatCurrency } from "../utils/formatters";
+import { rollups } from "./rollups";
+import { ensureBotTables } from "./schema";
+
+// Bounds of the orders to aggregate as [from, to), null for unbounded
+type OrderRange = [string | null, string | null];
 
 /**
- * Returns the number of decimal places for a given asset
- * @param asset The asset to get decimals for
+ * Syncs the decimals of every asset in the registry into the lookup
+ * table the volume queries join against. Each chain maps the symbol,
+ * token address and atomic swap address of its assets, with the first
+ * asset listed winning on duplicates, the same way getDecimals matches.
  * @param networkInfo The network information from Hashira API
- * @returns The number of decimal places for the asset
- * @throws Error if the asset is not found in the network info
  */
-export function getDecimals(
-  asset: { chain: string; asset: string },
-  networkInfo: Record<string, any> = {}
-): number {
-  if (
-    asset.asset ===
-    "0x2448040b22b27f5a814756e67da005701e525658b162d4f0343d2e011bc6dad"
-  ) {
-    return 18;
-  }
+export async function syncAssetDecimals(
+  networkInfo: HashiraNetworkResponse
+): Promise<void> {
+  await ensureBotTables("assetDecimals");
+
+  const decimals = new Map<string, [string, string, number]>();
+  const add = (chain: string, asset: string, value: number) => {
+    const key = `${chain}/${asset}`;
+    if (asset && !decimals.has(key)) {
+      decimals.set(key, [chain, asset, value]);
+    }
+  };
 
-  if (!networkInfo[asset.chain]) {
-    throw new Error(`Chain ${asset.chain} not found in network info`);
+  for (const [asset, value] of Object.entries(FIXED_DECIMALS)) {
+    add("*", asset, value);
   }
-
-  const assetConfig = networkInfo[asset.chain].assetConfig.find(
-    (config: AssetConfig) =>
-      config.symbol.toLowerCase() === asset.asset.toLowerCase() ||
-      config.tokenAddress.toLowerCase() === asset.asset.toLowerCase() ||
-      config.atomicSwapAddress.toLowerCase() === asset.asset.toLowerCase()
-  );
-
-  if (!assetConfig) {
-    throw new Error(`Asset ${asset.asset} not found for chain ${asset.chain}`);
+  for (const [chain, info] of Object.entries(networkInfo)) {
+    for (const config of info.assetConfig) {
+      add(chain, config.symbol.toLowerCase(), config.decimals);
+      add(chain, config.tokenAddress.toLowerCase(), config.decimals);
+      add(chain, config.atomicSwapAddress.toLowerCase(), config.decimals);
+    }
   }
 
-  return assetConfig.decimals;
+  const rows = [...decimals.values()];
+  await db.query(queries.syncAssetDecimalsQuery, [
+    rows.map(([chain]) => chain),
+    rows.map(([, asset]) => asset),
+    rows.map(([, , value]) => value),
+  ]);
+  logger.debug(`Synced decimals of ${rows.length} asset identifiers`);
 }
 
 /**
- * VolumeRow interface for database query results
+ * Calculates the USD volume of the successful orders in a range, counting
+ * both the source and destination legs. Legs that cannot be valued are
+ * left out.
+ * @returns Total USD volume
  */
-export interface VolumeRow {
-  create_order_id: string;
-  source_swap_amount: number;
-  destination_swap_amount: number;
-  source_swap_tx_hash: string;
-  destination_swap_tx_hash: string;
-  source_chain: string;
-  source_asset: string;
-  destination_chain: string;
-  destination_asset: string;
-  input_token_price: number;
-  output_token_price: number;
-  created_at: string; // ISO timestamp
+async function getVolume(range: OrderRange): Promise<number> {
+  const result = await db.query(queries.volumeQuery, range);
+  return Number(result.rows[0]?.volume || 0);
 }
 
 /**
- * Fetches new successful orders since a given timestamp
- * @returns Array of successful orders with volume information
+ * Finds the source chain with the most successful orders in a range,
+ * using volume as tie-breaker
+ * @returns Lower-cased chain and order count, or null without orders
  */
-export async function getOrderMetrics(): Promise<SuccessfulOrder[]> {
-  try {
-    logger.info("Fetching new successful orders");
-    const startTimestamp = new Date().toISOString();
-
-    // Query to get new successful orders since the start timestamp
-    const newOrdersQuery = `SELECT 
-    mo.create_order_id,
-    s1.amount as source_swap_amount,
-    s2.amount as destination_swap_amount,
-    co.source_chain,
-    co.source_asset,
-    co.destination_chain,
-    co.destination_asset,
-    (co.additional_data->>'input_token_price')::float as input_token_price,
-    (co.additional_data->>'output_token_price')::float as output_token_price,
-    mo.created_at AT TIME ZONE 'UTC' as created_at
-  FROM matched_orders mo
-  INNER JOIN create_orders co ON co.create_id = mo.create_order_id
-  INNER JOIN swaps s1 ON s1.swap_id = mo.source_swap_id
-  INNER JOIN swaps s2 ON s2.swap_id = mo.destination_swap_id
-  WHERE s1.redeem_tx_hash != ''
-    AND s2.redeem_tx_hash != ''
-    AND co.create_id IS NOT NULL
-    AND mo.created_at >= $1::timestamp
-  ORDER BY mo.created_at DESC;
-`;
-
-    const result = await db.query(newOrdersQuery, [startTimestamp]);
-
-    if (result.rows.length === 0) {
-      logger.info("No new successful orders found");
-      return [];
-    }
-
-    // Get network info for decimals calculation
-    const networkInfo = await getAssetInfo(
-      "https://testnet.api.hashira.io/info/assets"
-    );
+async function getTopChain(
+  range: OrderRange
+): Promise<{ chain: string; count: number } | null> {
+  const result = await db.query(queries.topChainQuery, range);
+  const top = result.rows[0];
+  return top ? { chain: top.chain, count: parseInt(top.count) } : null;
+}
 
-    // Calculate volume for each order
-    const ordersWithVolume = await Promise.all(
-      result.rows.map(async (order) => {
-        let orderVolume = 0;
-        try {
-          const sourceAmount =
-            Number(order.source_swap_amount) /
-            Math.pow(
-              10,
-              getDecimals(
-                {
-                  chain: order.source_chain,
-                  asset: order.source_asset,
-                },
-                networkInfo
-              )
-            );
-
-          const destinationAmount =
-            Number(order.source_swap_amount) /
-            Math.pow(
-              10,
-              getDecimals(
-                {
-                  chain: order.destination_chain,
-                  asset: order.destination_asset,
-                },
-                networkInfo
-              )
-            );
-
-          orderVolume =
-            sourceAmount * order.input_token_price +
-            destinationAmount * order.output_token_price;
-
-          logger.info(`Order volume: ${formatCurrency(orderVolume)}`);
-
-          logger.info(
-            `Order ${order.create_order_id} volume: $${orderVolume.toFixed(2)} (source: $${(order.source_amount * order.input_token_price).toFixed(2)}, destination: $${(order.destination_amount * order.output_token_price).toFixed(2)})`
-          );
-        } catch (error) {
-          logger.error(
-            `Error calculating volume for order ${order.create_order_id}: ${error}`
-          );
-        }
-
-        return {
-          ...order,
-          orderVolume,
-          timestamp: new Date().toISOString(),
-        };
-      })
-    );
+/**
+ * Finds the source chain and asset with the most successful orders in a
+ * range, using volume as tie-breaker
+ * @returns Lower-cased chain, asset and order count, or null without orders
+ */
+async function getTopAssetPair(
+  range: OrderRange
+): Promise<{ chain: string; asset: string; count: number } | null> {
+  const result = await db.query(queries.topAssetPairQuery, range);
+  const top = result.rows[0];
+  return top
+    ? { chain: top.chain, asset: top.asset, count: parseInt(top.count) }
+    : null;
+}
 
-    return ordersWithVolume;
-  } catch (error) {
-    logger.error("Error fetching order metrics:", error);
-    throw error;
+/**
+ * Resolves the display name of the top chain
+ * @param networkInfo The network information from Hashira API
+ */
+function describeTopChain(
+  top: { chain: string; count: number } | null,
+  networkInfo: HashiraNetworkResponse
+): SwapMetrics["topChain"] {
+  if (!top) {
+    return { name: "unknown", count: 0 };
   }
+
+  return {
+    name: networkInfo[top.chain]?.name || top.chain,
+    count: top.count,
+  };
 }
 
-export async function getSwapMetrics(): Promise<SwapMetrics> {
-  try {
-    logger.info("Fetching swap metrics using queries from queries.ts");
+/**
+ * Resolves the display name of the top asset pair
+ * @param networkInfo The network information from Hashira API
+ */
+function describeTopAssetPair(
+  top: { chain: string; asset: string; count: number } | null,
+  networkInfo: HashiraNetworkResponse
+): SwapMetrics["topAssetPair"] {
+  if (!top) {
+    return { pair: "unknown", count: 0 };
+  }
 
-    const totalOrdersResult = await db.query(queries.totalOrdersQuery);
-    const totalOrdersData = totalOrdersResult.rows[0];
+  // Get asset info for proper name
+  const assetConfig = networkInfo[top.chain]?.assetConfig.find(
+    (asset) => asset.tokenAddress.toLowerCase() === top.asset
+  );
 
-    const yesterdayOrdersResult = await db.query(queries.yesterdayOrdersQuery);
-    const yesterdayOrdersData = yesterdayOrdersResult.rows[0];
+  return {
+    pair: assetConfig
+      ? `${assetConfig.symbol} (${assetConfig.name})`
+      : top.asset,
+    count: top.count,
+  };
+}
 
-    const volumeResult = await db.query(queries.volumeQuery);
-    const volumeData: VolumeRow[] = volumeResult.rows;
+/**
+ * Resolves the display name of an asset, e.g. "WBTC on Ethereum"
+ * @param networkInfo The network information from Hashira API
+ */
+function describeAsset(
+  chain: string,
+  asset: string,
+  networkInfo: HashiraNetworkResponse
+): string {
+  const assetConfig = networkInfo[chain]?.assetConfig.find((config) =>
+    [config.symbol, config.tokenAddress, config.atomicSwapAddress].some(
+      (identifier) => identifier.toLowerCase() === asset
+    )
+  );
+  return `${assetConfig?.symbol || asset} on ${networkInfo[chain]?.name || chain}`;
+}
 
-    const yesterdayVolumeResult = await db.query(queries.yesterDayVolumeQuery);
-    const yesterdayVolumeData = yesterdayVolumeResult.rows;
+/**
+ * Names the entries of a leaderboard and adds their share of the volume
+ * @param networkInfo The network information from Hashira API
+ */
+function describeLeaderboard(
+  rows: LeaderboardRow[],
+  networkInfo: HashiraNetworkResponse
+): LeaderboardEntry[] {
+  return rows.map((row) => {
+    const volume = Number(row.volume);
+    const totalVolume = Number(row.total_volume);
+    const entry = { count: parseInt(row.count), volume };
+    const share = totalVolume > 0 ? volume / totalVolume : 0;
+
+    if (row.source_asset !== null && row.destination_asset !== null) {
+      return {
+        key: `${row.source_chain}:${row.source_asset}-${row.destination_chain}:${row.destination_asset}`,
+        name: `${describeAsset(
+          row.source_chain!,
+          row.source_asset,
+          networkInfo
+        )} → ${describeAsset(
+          row.destination_chain!,
+          row.destination_asset,
+          networkInfo
+        )}`,
+        ...entry,
+        share,
+      };
+    }
 
-    const usersResult = await db.query(queries.users);
-    const totalUsers = parseInt(usersResult.rows[0]?.total_users || "0");
+    const chain = (row.source_chain ?? row.destination_chain)!;
+    return {
+      key: chain,
+      name: networkInfo[chain]?.name || chain,
+      ...entry,
+      share,
+    };
+  });
+}
 
-    const networkInfo = await getAssetInfo(
-      "https://testnet.api.hashira.io/info/assets"
-    );
-    let allTimeVolume = 0;
-    let last24HoursVolume = 0;
-
-    for (const order of volumeData) {
-      // logger.info(`Order: ${JSON.stringify(order)}`);
-
-      if (order.input_token_price && order.source_swap_amount) {
-        try {
-          let decimals = getDecimals(
-            { chain: order.source_chain, asset: order.source_asset },
-            networkInfo
-          );
-
-          const source_amount =
-            Number(order.source_swap_amount) / Math.pow(10, decimals);
-
-          let destination_decimals;
-          try {
-            destination_decimals = getDecimals(
-              {
-                chain: order.destination_chain,
-                asset: order.destination_asset,
-              },
-              networkInfo
-            );
-
-            const destination_amount =
-              Number(order.destination_swap_amount) /
-              Math.pow(10, destination_decimals);
-
-            allTimeVolume +=
-              source_amount * order.input_token_price +
-              destination_amount * order.output_token_price;
-          } catch (error: any) {
-            logger.warn(
-              `Skipping destination amount calculation for order ${order.create_order_id}: ${error.message}`
-            );
-            // If we can't calculate destination amount, just use source amount
-            allTimeVolume += source_amount * order.input_token_price;
-          }
-        } catch (error: any) {
-          logger.warn(
-            `Skipping order ${order.create_order_id}: ${error.message}`
-          );
-        }
-      }
-    }
+/**
+ * Ranks source chains, destination chains and routes by the volume of
+ * their successful orders, reading from the rollups when they exist
+ * @param networkInfo The network information from Hashira API
+ */
+async function getLeaderboards(
+  range: OrderRange,
+  fromRollups: boolean,
+  networkInfo: HashiraNetworkResponse
+): Promise<Leaderboards> {
+  const size = botConfig.leaderboardSize;
+  const getBoard = async (kind: LeaderboardKind) => {
+    const rows: LeaderboardRow[] = fromRollups
+      ? await rollups.getLeaderboard(range, kind, size)
+      : (await db.query(queries.leaderboardQuery, [...range, kind, size])).rows;
+    return describeLeaderboard(rows, networkInfo);
+  };
+
+  return {
+    sourceChains: await getBoard("source"),
+    destinationChains: await getBoard("destination"),
+    routes: await getBoard("route"),
+  };
+}
 
-    // Calculate 24-hour volume
-    for (const order of yesterdayVolumeData) {
-      if (order.input_token_price && order.source_swap_amount) {
-        try {
-          let decimals = getDecimals(
-            { chain: order.source_chain, asset: order.source_asset },
-            networkInfo
-          );
-
-          const source_amount =
-            Number(order.source_swap_amount) / Math.pow(10, decimals);
-
-          let destination_decimals;
-          try {
-            // Check if destination chain and asset are defined
-            if (!order.destination_chain || !order.destination_asset) {
-              throw new Error(`Missing destination chain or asset information`);
-            }
-
-            destination_decimals = getDecimals(
-              {
-                chain: order.destination_chain,
-                asset: order.destination_asset,
-              },
-              networkInfo
-            );
-
-            const destination_amount =
-              Number(order.destination_swap_amount) /
-              Math.pow(10, destination_decimals);
-
-            last24HoursVolume +=
-              source_amount * order.input_token_price +
-              destination_amount * order.output_token_price;
-          } catch (error: any) {
-            logger.warn(
-              `Skipping destination amount calculation for order ${order.create_order_id}: ${error.message}`
-            );
-            // If we can't calculate destination amount, just use source amount
-            last24HoursVolume += source_amount * order.input_token_price;
-          }
-        } catch (error: any) {
-          logger.warn(
-            `Skipping order ${order.create_order_id}: ${error.message}`
-          );
-        }
+/**
+ * Counts total, active, new and returning users over the last 24 hours
+ * and builds the weekly retention cohorts
+ * @param weeks Number of weekly cohorts, the current week included
+ */
+export async function getUserMetrics(
+  weeks: number = botConfig.retentionWeeks
+): Promise<UserMetrics> {
+  try {
+    const now = new Date();
+    const activeResult = await db.query(queries.activeUsersQuery, [
+      new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString(),
+      now.toISOString(),
+    ]);
+    const activeData = activeResult.rows[0];
+    const active = parseInt(activeData?.active_users || "0");
+    const newUsers = parseInt(activeData?.new_users || "0");
+
+    const cohortsResult = await db.query(queries.retentionCohortsQuery, [
+      weeks,
+    ]);
+    const cohorts = new Map<string, RetentionCohort>();
+    for (const row of cohortsResult.rows) {
+      if (!cohorts.has(row.cohort)) {
+        cohorts.set(row.cohort, { week: row.cohort, users: 0, retention: [] });
+      }
+      const cohort = cohorts.get(row.cohort)!;
+      const offset = parseInt(row.week_offset);
+      const users = parseInt(row.users);
+      // Week 0 holds every user of the cohort
+      if (offset === 0) {
+        cohort.users = users;
       }
+      cohort.retention[offset] = users;
     }
 
-    // Count orders by chain
-    const chainCounts = new Map<string, { count: number; volume: number }>();
-    for (const order of volumeData) {
-      if (!order.source_chain) continue;
+    const currentWeek = Math.floor(
+      (now.getTime() - Date.UTC(1970, 0, 5)) / (7 * 24 * 60 * 60 * 1000)
+    );
+    const retention = [...cohorts.values()].map((cohort) => {
+      // Weeks without any returning user have no row
+      const weekIndex = Math.floor(
+        (Date.parse(cohort.week) - Date.UTC(1970, 0, 5)) /
+          (7 * 24 * 60 * 60 * 1000)
+      );
+      return {
+        ...cohort,
+        retention: Array.from(
+          { length: currentWeek - weekIndex + 1 },
+          (_, offset) => (cohort.retention[offset] || 0) / cohort.users
+        ),
+      };
+    });
 
-      const chain = order.source_chain.toLowerCase();
-      if (!chainCounts.has(chain)) {
-        chainCounts.set(chain, { count: 0, volume: 0 });
-      }
+    return {
+      total: parseInt(activeData?.total_users || "0"),
+      active,
+      new: newUsers,
+      returning: active - newUsers,
+      retention,
+    };
+  } catch (error) {
+    logger.error("Error calculating user metrics:", error);
+    throw error;
+  }
+}
 
-      const chainData = chainCounts.get(chain)!;
-      chainData.count += 1;
-
-      if (order.input_token_price && order.source_swap_amount) {
-        try {
-          let decimals = getDecimals(
-            { chain: order.source_chain, asset: order.source_asset },
-            networkInfo
-          );
-
-          const amount =
-            Number(order.source_swap_amount) / Math.pow(10, decimals);
-          chainData.volume += amount * order.input_token_price;
-        } catch (error: any) {
-          logger.warn(
-            `Skipping order ${order.create_order_id}: ${error.message}`
-          );
-        }
-      }
-    }
+/**
+ * Whether a date falls on midnight UTC, the boundary of daily rollups
+ */
+const isDayBoundary = (date: Date): boolean =>
+  date.getTime() % (24 * 60 * 60 * 1000) === 0;
 
-    // Find the chain with the most orders
-    let topChainEntry: [string, { count: number; volume: number }] | null =
-      null;
-    for (const entry of chainCounts.entries()) {
-      if (!topChainEntry || entry[1].count > topChainEntry[1].count) {
-        topChainEntry = entry;
-      } else if (
-        entry[1].count === topChainEntry[1].count &&
-        entry[1].volume > topChainEntry[1].volume
-      ) {
-        topChainEntry = entry;
-      }
-    }
+/**
+ * Calculates all-time and last 24 hours metrics, or the metrics of a
+ * single period when one is given
+ * @param period Start (inclusive) and end (exclusive) of the period
+ */
+export async function getSwapMetrics(): Promise<SwapMetrics>;
+export async function getSwapMetrics(
+  period: MetricsPeriod
+): Promise<PeriodMetrics>;
+export async function getSwapMetrics(
+  period?: MetricsPeriod
+): Promise<SwapMetrics | PeriodMetrics> {
+  return period ? getMetricsForPeriod(period) : getSummaryMetrics();
+}
 
-    // Get chain name from network info
-    const chainIdentifier = topChainEntry ? topChainEntry[0] : null;
-    const chainInfo = chainIdentifier ? networkInfo[chainIdentifier] : null;
-
-    const topChain = topChainEntry
-      ? {
-          name: chainInfo?.name || chainIdentifier || "unknown",
-          count: topChainEntry[1].count,
-        }
-      : { name: "unknown", count: 0 };
-
-    // Find top asset pair
-    const assetPairCounts = new Map<
-      string,
-      { count: number; volume: number; chain: string; asset: string }
-    >();
-    for (const order of volumeData) {
-      if (!order.source_chain || !order.source_asset) continue;
-
-      const key = `${order.source_chain.toLowerCase()}_${order.source_asset.toLowerCase()}`;
-      if (!assetPairCounts.has(key)) {
-        assetPairCounts.set(key, {
-          count: 0,
-          volume: 0,
-          chain: order.source_chain.toLowerCase(),
-          asset: order.source_asset.toLowerCase(),
-        });
-      }
+/**
+ * Calculates all-time and last 24 hours metrics. All-time metrics are
+ * read from the daily rollups as of their last update, or from the
+ * orders when the rollups are missing or out of date; the rolling 24
+ * hours don't line up with days and are always read from the orders.
+ */
+async function getSummaryMetrics(): Promise<SwapMetrics> {
+  try {
+    logger.info("Fetching swap metrics using queries from queries.ts");
 
-      const pairData = assetPairCounts.get(key)!;
-      pairData.count += 1;
-
-      if (order.input_token_price && order.source_swap_amount) {
-        try {
-          let decimals = getDecimals(
-            { chain: order.source_chain, asset: order.source_asset },
-            networkInfo
-          );
-
-          const amount =
-            Number(order.source_swap_amount) / Math.pow(10, decimals);
-          pairData.volume += amount * order.input_token_price;
-        } catch (error: any) {
-          logger.warn(
-            `Skipping order ${order.create_order_id}: ${error.message}`
-          );
-        }
-      }
-    }
+    const yesterdayOrdersResult = await db.query(queries.yesterdayOrdersQuery);
+    const yesterdayOrdersData = yesterdayOrdersResult.rows[0];
 
-    // Find the top asset pair
-    let topAssetPairEntry:
-      | [
-          string,
-          { count: number; volume: number; chain: string; asset: string },
-        ]
-      | null = null;
-    for (const entry of assetPairCounts.entries()) {
-      if (!topAssetPairEntry || entry[1].count > topAssetPairEntry[1].count) {
-        topAssetPairEntry = entry;
-      } else if (
-        entry[1].count === topAssetPairEntry[1].count &&
-        entry[1].volume > topAssetPairEntry[1].volume
-      ) {
-        topAssetPairEntry = entry;
-      }
-    }
+    const networkInfo = await getAssetInfo(botConfig.assetsApiUrl);
+    await syncAssetDecimals(networkInfo);
 
-    // Get asset info for proper name
-    const assetChain = topAssetPairEntry ? topAssetPairEntry[1].chain : null;
-    const assetAddress = topAssetPairEntry ? topAssetPairEntry[1].asset : null;
-    let assetName = assetAddress || "unknown";
+    const last24Hours: OrderRange = [
+      new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
+      null,
+    ];
+    const last24HoursVolume = await getVolume(last24Hours);
 
-    if (assetChain && assetAddress && networkInfo[assetChain]) {
-      const assetConfig = networkInfo[assetChain].assetConfig.find(
-        (asset) =>
-          asset.tokenAddress.toLowerCase() === assetAddress.toLowerCase()
-      );
-      if (assetConfig) {
-        assetName = `${assetConfig.symbol} (${assetConfig.name})`;
-      }
-    }
+    let totals: RollupTotals;
+    let topChain: SwapMetrics["topChain"];
+    let topAssetPair: SwapMetrics["topAssetPair"];
 
-    const topAssetPair = topAssetPairEntry
-      ? {
-          pair: assetName,
-          count: topAssetPairEntry[1].count,
-        }
-      : { pair: "unknown", count: 0 };
-
-    // Calculate completion rate
-    const totalMatchedOrders = parseInt(totalOrdersData?.total_orders || "0");
-    const totalSuccessfulOrders = parseInt(
-      totalOrdersData?.fulfilled_orders || "0"
+    const watermark = await rollups.getWatermark();
+    const fromRollups = Boolean(
+      watermark &&
+      Date.now() - watermark.getTime() <=
+        botConfig.rollups.maxAgeHours * 60 * 60 * 1000
     );
-    const completionRate =
-      totalMatchedOrders > 0 ? totalSuccessfulOrders / totalMatchedOrders : 0;
+    if (fromRollups) {
+      totals = await rollups.getTotals([null, null]);
+      topChain = describeTopChain(
+        await rollups.getTopChain([null, null]),
+        networkInfo
+      );
+      topAssetPair = describeTopAssetPair(
+        await rollups.getTopAssetPair([null, null]),
+        networkInfo
+      );
+    } else {
+      logger.warn(
+        watermark
+          ? `Daily rollups were last updated at ${watermark.toISOString()}, reading all-time metrics from the orders`
+          : "Daily rollups have not been built yet, reading all-time metrics from the orders"
+      );
+      const totalOrdersResult = await db.query(queries.totalOrdersQuery);
+      const totalOrdersData = totalOrdersResult.rows[0];
+      const allTime: OrderRange = [null, null];
+
+      totals = {
+        orders: parseInt(totalOrdersData?.total_orders || "0"),
+        fulfilled: parseInt(totalOrdersData?.fulfilled_orders || "0"),
+        refunded: parseInt(totalOrdersData?.refunded_orders || "0"),
+        expired: parseInt(totalOrdersData?.expired_orders || "0"),
+        volume: await getVolume(allTime),
+      };
+      topChain = describeTopChain(await getTopChain(allTime), networkInfo);
+      topAssetPair = describeTopAssetPair(
+        await getTopAssetPair(allTime),
+        networkInfo
+      );
+    }
 
     return {
-      allOrders: parseInt(totalOrdersData?.total_orders || "0"),
-      totalSwaps: totalSuccessfulOrders,
+      allOrders: totals.orders,
+      totalSwaps: totals.fulfilled,
       last24HoursSwaps: parseInt(yesterdayOrdersData?.total_orders || "0"),
       last24HoursVolume: last24HoursVolume,
-      allTimeVolume: allTimeVolume,
+      allTimeVolume: totals.volume,
       topChain,
       topAssetPair,
-      completionRate,
+      completionRate: totals.orders > 0 ? totals.fulfilled / totals.orders : 0,
+      refundedOrders: totals.refunded,
+      expiredOrders: totals.expired,
+      users: await getUserMetrics(),
+      leaderboards: await getLeaderboards(
+        [null, null],
+        fromRollups,
+        networkInfo
+      ),
     };
   } catch (error) {
     logger.error("Error calculating swap metrics:", error);
     throw error;
   }
 }
+
+/**
+ * Calculates order, volume and top performer metrics for a period. Periods
+ * made of whole days the rollups are up to date for are read from the
+ * rollups, others from the orders.
+ * @returns Metrics for orders matched within the period
+ */
+async function getMetricsForPeriod(
+  period: MetricsPeriod
+): Promise<PeriodMetrics> {
+  try {
+    const from = period.from.toISOString();
+    const to = period.to.toISOString();
+    const params: OrderRange = [from, to];
+    logger.info(`Fetching swap metrics from ${from} to ${to}`);
+
+    const networkInfo = await getAssetInfo(botConfig.assetsApiUrl);
+
+    const watermark = await rollups.getWatermark();
+    if (
+      watermark &&
+      watermark >= period.to &&
+      isDayBoundary(period.from) &&
+      isDayBoundary(period.to)
+    ) {
+      const totals = await rollups.getTotals(params);
+      return {
+        from,
+        to,
+        orders: totals.orders,
+        fulfilledOrders: totals.fulfilled,
+        refundedOrders: totals.refunded,
+        expiredOrders: totals.expired,
+        volume: totals.volume,
+        completionRate:
+          totals.orders > 0 ? totals.fulfilled / totals.orders : 0,
+        topChain: describeTopChain(
+          await rollups.getTopChain(params),
+          networkInfo
+        ),
+        topAssetPair: describeTopAssetPair(
+          await rollups.getTopAssetPair(params),
+          networkInfo
+        ),
+      };
+    }
+
+    await syncAssetDecimals(networkInfo);
+    const ordersResult = await db.query(queries.periodOrdersQuery, params);
+    const ordersData = ordersResult.rows[0];
+
+    const orders = parseInt(ordersData?.total_orders || "0");
+    const fulfilledOrders = parseInt(ordersData?.fulfilled_orders || "0");
+
+    return {
+      from,
+      to,
+      orders,
+      fulfilledOrders,
+      refundedOrders: parseInt(ordersData?.refunded_orders || "0"),
+      expiredOrders: parseInt(ordersData?.expired_orders || "0"),
+      volume: await getVolume(params),
+      completionRate: orders > 0 ? fulfilledOrders / orders : 0,
+      topChain: describeTopChain(await getTopChain(params), networkInfo),
+      topAssetPair: describeTopAssetPair(
+        await getTopAssetPair(params),
+        networkInfo
+      ),
+    };
+  } catch (error) {
+    logger.error("Error calculating period metrics:", error);
+    throw error;
+  }
+}
+
+/**
+ * Calculates order counts, completion, refund and expiry rates and USD
+ * volume per time bucket, optionally split by source chain or swap pair.
+ * Buckets start at the hour, day or ISO week (Monday) in UTC, so the
+ * first and last bucket may only be partly covered by the range, which
+ * each point's coverage reports. Buckets without orders are included.
+ * @returns Points ordered by bucket, then group
+ */
+export async function getMetricsTimeseries(
+  query: TimeseriesQuery
+): Promise<TimeseriesPoint[]> {
+  try {
+    await syncAssetDecimals(await getAssetInfo(botConfig.assetsApiUrl));
+
+    const result = await db.query(queries.timeseriesQuery, [
+      query.from.toISOString(),
+      query.to.toISOString(),
+      query.granularity,
+      query.groupBy || null,
+    ]);
+
+    return result.rows.map((row) => {
+      const orders = parseInt(row.total_orders);
+      const fulfilled = parseInt(row.fulfilled_orders);
+      const refunded = parseInt(row.refunded_orders);
+      const expired = parseInt(row.expired_orders);
+      return {
+        bucket: row.bucket,
+        coverage: Number(row.coverage),
+        ...(query.groupBy ? { group: row.group_key } : {}),
+        orders,
+        fulfilled,
+        completionRate: orders > 0 ? fulfilled / orders : 0,
+        refunded,
+        expired,
+        refundRate: orders > 0 ? refunded / orders : 0,
+        expiryRate: orders > 0 ? expired / orders : 0,
+        volume: Number(row.volume),
+      };
+    });
+  } catch (error) {
+    logger.error("Error calculating metrics timeseries:", error);
+    throw error;
+  }
+}
+
+/**
+ * Counts the refunded and expired orders matched in a window, in total or
+ * per source chain or route. Orders that are neither redeemed nor
+ * refunded count as expired, including ones that are still in flight.
+ */
+export async function getFailureCounts(
+  from: Date,
+  to: Date,
+  groupBy?: TimeseriesGroupBy
+): Promise<FailureCounts[]> {
+  // The orders query joins the decimals lookup, but no volume is read
+  await ensureBotTables("assetDecimals");
+
+  const result = await db.query(queries.failureCountsQuery, [
+    from.toISOString(),
+    to.toISOString(),
+    groupBy || null,
+  ]);
+
+  return result.rows.map((row) => {
+    const orders = parseInt(row.total_orders);
+    const refunded = parseInt(row.refunded_orders);
+    const expired = parseInt(row.expired_orders);
+    return {
+      ...(groupBy ? { group: row.group_key } : {}),
+      orders,
+      refunded,
+      expired,
+      refundRate: orders > 0 ? refunded / orders : 0,
+      expiryRate: orders > 0 ? expired / orders : 0,
+    };
+  });
+}
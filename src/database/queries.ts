@@ -1,3 +1,52 @@
+// Orders matched between $1 (inclusive) and $2 (exclusive), either of
+// which may be null, with their outcome and the USD value of both legs.
+// A leg is NULL when its amount, token price or decimals are unknown, so
+// SUM leaves it out like valueOrder does. Chain-independent decimals
+// (stored with chain '*') take precedence, as in getDecimals.
+// valued_orders holds the successful orders volume is counted for.
+const matchedOrdersCte = `
+WITH matched AS (
+  SELECT
+    mo.create_order_id,
+    mo.created_at,
+    COALESCE(co.source_chain, '') as source_chain,
+    COALESCE(co.source_asset, '') as source_asset,
+    COALESCE(co.destination_chain, '') as destination_chain,
+    COALESCE(co.destination_asset, '') as destination_asset,
+    s1.redeem_tx_hash != '' AND s2.redeem_tx_hash != '' as fulfilled,
+    s1.refund_tx_hash != '' as refunded,
+    s1.redeem_tx_hash = '' AND s2.redeem_tx_hash = '' AND s1.refund_tx_hash = '' as expired,
+    co.create_id IS NOT NULL as created,
+    s1.amount::numeric
+      * NULLIF((co.additional_data->>'input_token_price')::numeric, 0)
+      / POWER(10::numeric, COALESCE(sfd.decimals, sd.decimals)) as source_usd,
+    s2.amount::numeric
+      * NULLIF((co.additional_data->>'output_token_price')::numeric, 0)
+      / POWER(10::numeric, COALESCE(dfd.decimals, dd.decimals)) as destination_usd
+  FROM matched_orders mo
+  LEFT JOIN create_orders co ON co.create_id = mo.create_order_id
+  INNER JOIN swaps s1 ON s1.swap_id = mo.source_swap_id
+  INNER JOIN swaps s2 ON s2.swap_id = mo.destination_swap_id
+  LEFT JOIN bot_asset_decimals sfd
+    ON sfd.chain = '*' AND sfd.asset = co.source_asset AND co.source_chain != ''
+  LEFT JOIN bot_asset_decimals sd
+    ON sd.chain = co.source_chain AND sd.asset = LOWER(co.source_asset)
+  LEFT JOIN bot_asset_decimals dfd
+    ON dfd.chain = '*' AND dfd.asset = co.destination_asset AND co.destination_chain != ''
+  LEFT JOIN bot_asset_decimals dd
+    ON dd.chain = co.destination_chain AND dd.asset = LOWER(co.destination_asset)
+  WHERE ($1::timestamp IS NULL OR mo.created_at >= $1::timestamp)
+    AND ($2::timestamp IS NULL OR mo.created_at < $2::timestamp)
+), valued_orders AS (
+  SELECT * FROM matched WHERE fulfilled AND created
+)`;
+
+// Per-day rollups between $1 (inclusive) and $2 (exclusive), either of
+// which may be null
+const rollupRange = `
+WHERE ($1::date IS NULL OR day >= $1::date)
+  AND ($2::date IS NULL OR day < $2::date)`;
+
 export const queries = {
   totalOrdersQuery: `
 SELECT 
@@ -23,7 +72,7 @@ INNER JOIN swaps s2 ON s2.swap_id = mo.destination_swap_id
 WHERE mo.created_at >= NOW() AT TIME ZONE 'UTC' - INTERVAL '24 HOURS'
   AND mo.created_at <= NOW() AT TIME ZONE 'UTC'
 `,
-  volumeQuery: `
+  yesterDayVolumeQuery: `
 SELECT 
     mo.create_order_id,
     s1.amount as source_swap_amount,
@@ -32,7 +81,6 @@ SELECT
     s2.redeem_tx_hash as destination_swap_tx_hash,
     co.source_chain as source_chain,
     co.source_asset as source_asset,
-    co.destination_chain as destination_chain,
     co.destination_asset as destination_asset,
     (co.additional_data->>'input_token_price')::float as input_token_price,
     (co.additional_data->>'output_token_price')::float as output_token_price,
@@ -41,21 +89,295 @@ FROM matched_orders mo
 INNER JOIN create_orders co ON co.create_id = mo.create_order_id
 INNER JOIN swaps s1 ON s1.swap_id = mo.source_swap_id
 INNER JOIN swaps s2 ON s2.swap_id = mo.destination_swap_id
-WHERE s1.redeem_tx_hash != ''
+WHERE mo.created_at >= NOW() AT TIME ZONE 'UTC' - INTERVAL '24 HOURS'
+    AND s1.redeem_tx_hash != ''
     AND s2.redeem_tx_hash != ''
     AND co.create_id IS NOT NULL
 ORDER BY mo.created_at DESC;
 `,
-  yesterDayVolumeQuery: `
+
+  periodOrdersQuery: `
+SELECT 
+  COUNT(create_order_id) as total_orders,
+  COUNT(CASE WHEN s1.redeem_tx_hash != '' AND s2.redeem_tx_hash != '' THEN 1 END) as fulfilled_orders,
+  COUNT(CASE WHEN s1.refund_tx_hash != '' THEN 1 END) as refunded_orders,
+  COUNT(CASE WHEN s1.redeem_tx_hash = '' AND s2.redeem_tx_hash = '' AND s1.refund_tx_hash = '' THEN 1 END) as expired_orders
+FROM matched_orders mo
+INNER JOIN swaps s1 ON s1.swap_id = mo.source_swap_id
+INNER JOIN swaps s2 ON s2.swap_id = mo.destination_swap_id
+WHERE mo.created_at >= $1::timestamp
+  AND mo.created_at < $2::timestamp
+`,
+  volumeQuery: `${matchedOrdersCte}
+SELECT COALESCE(SUM(source_usd), 0) + COALESCE(SUM(destination_usd), 0) as volume
+FROM valued_orders;
+`,
+
+  // Ties on order count go to the higher source volume, then to the
+  // chain with the most recent order
+  topChainQuery: `${matchedOrdersCte}
+SELECT LOWER(source_chain) as chain, COUNT(*) as count
+FROM valued_orders
+WHERE source_chain != ''
+GROUP BY LOWER(source_chain)
+ORDER BY COUNT(*) DESC, COALESCE(SUM(source_usd), 0) DESC, MAX(created_at) DESC
+LIMIT 1;
+`,
+
+  topAssetPairQuery: `${matchedOrdersCte}
+SELECT
+  LOWER(source_chain) as chain,
+  LOWER(source_asset) as asset,
+  COUNT(*) as count
+FROM valued_orders
+WHERE source_chain != '' AND source_asset != ''
+GROUP BY LOWER(source_chain), LOWER(source_asset)
+ORDER BY COUNT(*) DESC, COALESCE(SUM(source_usd), 0) DESC, MAX(created_at) DESC
+LIMIT 1;
+`,
+
+  // Orders per $3 bucket (hour, day or week), optionally grouped by
+  // source chain or by swap pair when $4 is 'chain' or 'pair'. Every
+  // bucket of the range gets a row, per group seen in the range, with the
+  // share of the bucket the range covers.
+  timeseriesQuery: `${matchedOrdersCte}, buckets AS (
+  SELECT
+    start,
+    EXTRACT(EPOCH FROM
+      LEAST(start + ('1 ' || $3::text)::interval, $2::timestamp)
+        - GREATEST(start, $1::timestamp)
+    ) / EXTRACT(EPOCH FROM ('1 ' || $3::text)::interval) as coverage
+  FROM generate_series(
+    DATE_TRUNC($3::text, $1::timestamp),
+    $2::timestamp,
+    ('1 ' || $3::text)::interval
+  ) AS start
+  WHERE start < $2::timestamp
+), points AS (
+  SELECT
+    DATE_TRUNC($3::text, created_at) as bucket,
+    CASE $4::text
+      WHEN 'chain' THEN LOWER(source_chain)
+      WHEN 'pair' THEN LOWER(source_chain || ':' || source_asset || '-' || destination_chain || ':' || destination_asset)
+    END as group_key,
+    COUNT(create_order_id) as total_orders,
+    COUNT(*) FILTER (WHERE fulfilled) as fulfilled_orders,
+    COUNT(*) FILTER (WHERE refunded) as refunded_orders,
+    COUNT(*) FILTER (WHERE expired) as expired_orders,
+    COALESCE(SUM(source_usd) FILTER (WHERE fulfilled AND created), 0)
+      + COALESCE(SUM(destination_usd) FILTER (WHERE fulfilled AND created), 0) as volume
+  FROM matched
+  GROUP BY 1, 2
+), groups AS (
+  SELECT DISTINCT group_key FROM points
+  UNION
+  SELECT NULL WHERE $4::text IS NULL
+)
+SELECT
+  -- created_at holds UTC without a time zone
+  TO_CHAR(b.start, 'YYYY-MM-DD"T"HH24:MI:SS"Z"') as bucket,
+  b.coverage,
+  g.group_key,
+  COALESCE(p.total_orders, 0) as total_orders,
+  COALESCE(p.fulfilled_orders, 0) as fulfilled_orders,
+  COALESCE(p.refunded_orders, 0) as refunded_orders,
+  COALESCE(p.expired_orders, 0) as expired_orders,
+  COALESCE(p.volume, 0) as volume
+FROM buckets b
+CROSS JOIN groups g
+LEFT JOIN points p
+  ON p.bucket = b.start AND p.group_key IS NOT DISTINCT FROM g.group_key
+ORDER BY b.start, g.group_key;
+`,
+
+  // Refunded and expired orders in the window, in total ($3 null), per
+  // source chain ('chain') or per route ('pair')
+  failureCountsQuery: `${matchedOrdersCte}
+SELECT
+  CASE $3::text
+    WHEN 'chain' THEN LOWER(source_chain)
+    WHEN 'pair' THEN LOWER(source_chain || ':' || source_asset || '-' || destination_chain || ':' || destination_asset)
+  END as group_key,
+  COUNT(create_order_id) as total_orders,
+  COUNT(*) FILTER (WHERE refunded) as refunded_orders,
+  COUNT(*) FILTER (WHERE expired) as expired_orders
+FROM matched
+WHERE $3::text IS NULL OR source_chain != ''
+GROUP BY 1;
+`,
+
+  // Ranks source chains ($3 = 'source'), destination chains
+  // ('destination') or routes ('route') by volume and returns the top $4
+  // with the total volume of all of them
+  leaderboardQuery: `${matchedOrdersCte}
+SELECT
+  CASE WHEN $3::text IN ('source', 'route') THEN LOWER(source_chain) END as source_chain,
+  CASE WHEN $3::text = 'route' THEN LOWER(source_asset) END as source_asset,
+  CASE WHEN $3::text IN ('destination', 'route') THEN LOWER(destination_chain) END as destination_chain,
+  CASE WHEN $3::text = 'route' THEN LOWER(destination_asset) END as destination_asset,
+  COUNT(*) as count,
+  COALESCE(SUM(source_usd), 0) + COALESCE(SUM(destination_usd), 0) as volume,
+  SUM(COALESCE(SUM(source_usd), 0) + COALESCE(SUM(destination_usd), 0)) OVER () as total_volume
+FROM valued_orders
+WHERE source_chain != '' AND destination_chain != ''
+GROUP BY 1, 2, 3, 4
+ORDER BY volume DESC, count DESC
+LIMIT $4;
+`,
+
+  createAssetDecimalsTableQuery: `
+CREATE TABLE IF NOT EXISTS bot_asset_decimals (
+    chain TEXT NOT NULL,
+    asset TEXT NOT NULL,
+    decimals INTEGER NOT NULL,
+    PRIMARY KEY (chain, asset)
+);
+`,
+
+  // Replaces the lookup with the given (chain, asset, decimals) arrays
+  syncAssetDecimalsQuery: `
+WITH incoming AS (
+  SELECT * FROM UNNEST($1::text[], $2::text[], $3::int[]) AS t(chain, asset, decimals)
+), removed AS (
+  DELETE FROM bot_asset_decimals
+  WHERE (chain, asset) NOT IN (SELECT chain, asset FROM incoming)
+)
+INSERT INTO bot_asset_decimals (chain, asset, decimals)
+SELECT chain, asset, decimals FROM incoming
+ON CONFLICT (chain, asset) DO UPDATE SET decimals = EXCLUDED.decimals;
+`,
+
+  createRollupTablesQuery: `
+CREATE TABLE IF NOT EXISTS bot_daily_rollups (
+    day DATE NOT NULL,
+    source_chain TEXT NOT NULL,
+    destination_chain TEXT NOT NULL,
+    source_asset TEXT NOT NULL,
+    destination_asset TEXT NOT NULL,
+    orders INTEGER NOT NULL,
+    fulfilled INTEGER NOT NULL,
+    refunded INTEGER NOT NULL,
+    expired INTEGER NOT NULL,
+    volume NUMERIC NOT NULL,
+    -- Source leg volume, which breaks ties between top chains and pairs
+    source_volume NUMERIC NOT NULL,
+    last_fulfilled_at TIMESTAMP,
+    PRIMARY KEY (day, source_chain, destination_chain, source_asset, destination_asset)
+);
+CREATE TABLE IF NOT EXISTS bot_rollup_state (
+    name TEXT PRIMARY KEY,
+    watermark TIMESTAMPTZ NOT NULL,
+    -- Whether all history was rolled up at least once
+    full_history BOOLEAN NOT NULL DEFAULT FALSE
+);
+`,
+
+  deleteRollupsQuery: `
+DELETE FROM bot_daily_rollups WHERE $1::date IS NULL OR day >= $1::date;
+`,
+
+  // Rolls up the orders matched since $1 (all orders when null). $2 is
+  // always null, the range is open-ended.
+  insertRollupsQuery: `
+INSERT INTO bot_daily_rollups (
+    day, source_chain, destination_chain, source_asset, destination_asset,
+    orders, fulfilled, refunded, expired, volume, source_volume, last_fulfilled_at
+)
+${matchedOrdersCte}
+SELECT
+  DATE_TRUNC('day', created_at)::date,
+  source_chain,
+  destination_chain,
+  source_asset,
+  destination_asset,
+  COUNT(create_order_id),
+  COUNT(*) FILTER (WHERE fulfilled),
+  COUNT(*) FILTER (WHERE refunded),
+  COUNT(*) FILTER (WHERE expired),
+  COALESCE(SUM(source_usd) FILTER (WHERE fulfilled AND created), 0)
+    + COALESCE(SUM(destination_usd) FILTER (WHERE fulfilled AND created), 0),
+  COALESCE(SUM(source_usd) FILTER (WHERE fulfilled AND created), 0),
+  MAX(created_at) FILTER (WHERE fulfilled AND created)
+FROM matched
+GROUP BY 1, 2, 3, 4, 5;
+`,
+
+  selectRollupStateQuery: `
+SELECT watermark, full_history FROM bot_rollup_state WHERE name = 'daily';
+`,
+
+  // $2 is whether this rebuild covered all history; once it did, the
+  // rollups keep covering it
+  upsertRollupWatermarkQuery: `
+INSERT INTO bot_rollup_state (name, watermark, full_history)
+VALUES ('daily', $1, $2)
+ON CONFLICT (name) DO UPDATE SET
+    watermark = EXCLUDED.watermark,
+    full_history = bot_rollup_state.full_history OR EXCLUDED.full_history;
+`,
+
+  rollupTotalsQuery: `
+SELECT
+  COALESCE(SUM(orders), 0) as total_orders,
+  COALESCE(SUM(fulfilled), 0) as fulfilled_orders,
+  COALESCE(SUM(refunded), 0) as refunded_orders,
+  COALESCE(SUM(expired), 0) as expired_orders,
+  COALESCE(SUM(volume), 0) as volume
+FROM bot_daily_rollups${rollupRange};
+`,
+
+  // Same ordering as topChainQuery, counting successful orders only
+  rollupTopChainQuery: `
+SELECT LOWER(source_chain) as chain, SUM(fulfilled) as count
+FROM bot_daily_rollups${rollupRange}
+  AND source_chain != ''
+GROUP BY LOWER(source_chain)
+HAVING SUM(fulfilled) > 0
+ORDER BY SUM(fulfilled) DESC, SUM(source_volume) DESC, MAX(last_fulfilled_at) DESC
+LIMIT 1;
+`,
+
+  rollupTopAssetPairQuery: `
+SELECT
+  LOWER(source_chain) as chain,
+  LOWER(source_asset) as asset,
+  SUM(fulfilled) as count
+FROM bot_daily_rollups${rollupRange}
+  AND source_chain != '' AND source_asset != ''
+GROUP BY LOWER(source_chain), LOWER(source_asset)
+HAVING SUM(fulfilled) > 0
+ORDER BY SUM(fulfilled) DESC, SUM(source_volume) DESC, MAX(last_fulfilled_at) DESC
+LIMIT 1;
+`,
+
+  // Same ranking as leaderboardQuery, read from the rollups. $3 is the
+  // board and $4 the number of entries.
+  rollupLeaderboardQuery: `
+SELECT
+  CASE WHEN $3::text IN ('source', 'route') THEN LOWER(source_chain) END as source_chain,
+  CASE WHEN $3::text = 'route' THEN LOWER(source_asset) END as source_asset,
+  CASE WHEN $3::text IN ('destination', 'route') THEN LOWER(destination_chain) END as destination_chain,
+  CASE WHEN $3::text = 'route' THEN LOWER(destination_asset) END as destination_asset,
+  SUM(fulfilled) as count,
+  SUM(volume) as volume,
+  SUM(SUM(volume)) OVER () as total_volume
+FROM bot_daily_rollups${rollupRange}
+  AND source_chain != '' AND destination_chain != ''
+GROUP BY 1, 2, 3, 4
+HAVING SUM(fulfilled) > 0
+ORDER BY volume DESC, count DESC
+LIMIT $4;
+`,
+
+  ordersAfterCursorQuery: `
 SELECT 
     mo.create_order_id,
     s1.amount as source_swap_amount,
     s2.amount as destination_swap_amount,
-    s1.redeem_tx_hash as source_swap_tx_hash,
-    s2.redeem_tx_hash as destination_swap_tx_hash,
-    co.source_chain as source_chain,
-    co.source_asset as source_asset,
-    co.destination_asset as destination_asset,
+    co.source_chain,
+    co.source_asset,
+    co.destination_chain,
+    co.destination_asset,
     (co.additional_data->>'input_token_price')::float as input_token_price,
     (co.additional_data->>'output_token_price')::float as output_token_price,
     mo.created_at AT TIME ZONE 'UTC' as created_at
@@ -63,38 +385,173 @@ FROM matched_orders mo
 INNER JOIN create_orders co ON co.create_id = mo.create_order_id
 INNER JOIN swaps s1 ON s1.swap_id = mo.source_swap_id
 INNER JOIN swaps s2 ON s2.swap_id = mo.destination_swap_id
-WHERE mo.created_at >= NOW() AT TIME ZONE 'UTC' - INTERVAL '24 HOURS'
-    AND s1.redeem_tx_hash != ''
+WHERE s1.redeem_tx_hash != ''
     AND s2.redeem_tx_hash != ''
     AND co.create_id IS NOT NULL
-ORDER BY mo.created_at DESC;
+    AND mo.created_at >= $1
+    AND NOT (mo.create_order_id = ANY($2::text[]))
+ORDER BY mo.created_at ASC, mo.create_order_id ASC
+LIMIT $3;
 `,
 
-  dailyActiveUsers: `
-SELECT COUNT(DISTINCT co.initiator_source_address) as active_users
-FROM create_orders co
-INNER JOIN matched_orders mo ON mo.create_order_id = co.create_id
-WHERE mo.created_at >= DATE_TRUNC('day', NOW() - INTERVAL '1 day')
-AND mo.created_at < DATE_TRUNC('day', NOW());
-`,
-
-  newUsersToday: `
-SELECT COUNT(DISTINCT new_users.initiator_source_address) as new_users
-FROM (
-    SELECT initiator_source_address, MIN(created_at) as first_swap
-    FROM create_orders
-    GROUP BY initiator_source_address
-) new_users
-WHERE new_users.first_swap >= DATE_TRUNC('day', NOW() - INTERVAL '1 day')
-AND new_users.first_swap < DATE_TRUNC('day', NOW());
-`,
-
-  users: `
-SELECT COUNT(DISTINCT(co.initiator_source_address)) as total_users
-        FROM matched_orders mo
-        INNER JOIN create_orders co ON co.create_id = mo.create_order_id
-        INNER JOIN swaps s1 ON s1.swap_id = mo.source_swap_id
-        INNER JOIN swaps s2 ON s2.swap_id = mo.destination_swap_id
-        AND s1.redeem_tx_hash!= '' AND s2.redeem_tx_hash!= ''
-  `,
+  orderByIdQuery: `
+SELECT 
+    mo.create_order_id,
+    s1.amount as source_swap_amount,
+    s2.amount as destination_swap_amount,
+    co.source_chain,
+    co.source_asset,
+    co.destination_chain,
+    co.destination_asset,
+    (co.additional_data->>'input_token_price')::float as input_token_price,
+    (co.additional_data->>'output_token_price')::float as output_token_price,
+    mo.created_at AT TIME ZONE 'UTC' as created_at
+FROM matched_orders mo
+INNER JOIN create_orders co ON co.create_id = mo.create_order_id
+INNER JOIN swaps s1 ON s1.swap_id = mo.source_swap_id
+INNER JOIN swaps s2 ON s2.swap_id = mo.destination_swap_id
+WHERE s1.redeem_tx_hash != ''
+    AND s2.redeem_tx_hash != ''
+    AND mo.create_order_id = $1;
+`,
+
+  // Users are initiator source addresses with a matched order. Counts
+  // the users active between $1 (inclusive) and $2 (exclusive) and how
+  // many of them placed their first order in that window.
+  activeUsersQuery: `
+WITH first_orders AS (
+  SELECT co.initiator_source_address as address, MIN(mo.created_at) as first_order_at
+  FROM matched_orders mo
+  INNER JOIN create_orders co ON co.create_id = mo.create_order_id
+  WHERE co.initiator_source_address != ''
+  GROUP BY co.initiator_source_address
+), active AS (
+  SELECT DISTINCT co.initiator_source_address as address
+  FROM matched_orders mo
+  INNER JOIN create_orders co ON co.create_id = mo.create_order_id
+  WHERE co.initiator_source_address != ''
+    AND mo.created_at >= $1::timestamp
+    AND mo.created_at < $2::timestamp
+)
+SELECT
+  (SELECT COUNT(*) FROM first_orders) as total_users,
+  COUNT(*) as active_users,
+  COUNT(*) FILTER (WHERE f.first_order_at >= $1::timestamp) as new_users
+FROM active a
+INNER JOIN first_orders f ON f.address = a.address;
+`,
+
+  // Users of the last $1 weekly cohorts, by the week of their first
+  // matched order, active in each week since. Weeks start on Monday (UTC).
+  retentionCohortsQuery: `
+WITH activity AS (
+  SELECT
+    co.initiator_source_address as address,
+    DATE_TRUNC('week', mo.created_at) as week
+  FROM matched_orders mo
+  INNER JOIN create_orders co ON co.create_id = mo.create_order_id
+  WHERE co.initiator_source_address != ''
+  GROUP BY 1, 2
+), cohorts AS (
+  SELECT address, MIN(week) as cohort
+  FROM activity
+  GROUP BY address
+)
+SELECT
+  TO_CHAR(c.cohort, 'YYYY-MM-DD') as cohort,
+  (a.week::date - c.cohort::date) / 7 as week_offset,
+  COUNT(*) as users
+FROM cohorts c
+INNER JOIN activity a ON a.address = c.address
+WHERE c.cohort >= DATE_TRUNC('week', NOW() AT TIME ZONE 'UTC') - ($1::int - 1) * INTERVAL '1 week'
+GROUP BY 1, 2
+ORDER BY 1, 2;
+`,
+
+  // Resolves to null when the table doesn't exist
+  tableExistsQuery: `
+SELECT to_regclass($1) AS name;
+`,
+
+  createTokensTableQuery: `
+CREATE TABLE IF NOT EXISTS bot_tokens (
+    account TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+`,
+
+  selectTokensQuery: `
+SELECT account, data FROM bot_tokens;
+`,
+
+  upsertTokenQuery: `
+INSERT INTO bot_tokens (account, data, updated_at)
+VALUES ($1, $2, NOW())
+ON CONFLICT (account) DO UPDATE SET data = EXCLUDED.data, updated_at = NOW();
+`,
+
+  createPostHistoryTableQuery: `
+CREATE TABLE IF NOT EXISTS bot_post_history (
+    id SERIAL PRIMARY KEY,
+    tweet_id TEXT,
+    thread_id TEXT,
+    account TEXT NOT NULL,
+    text TEXT NOT NULL,
+    template TEXT,
+    copy TEXT,
+    payload JSONB,
+    image_hash TEXT,
+    status TEXT NOT NULL,
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS bot_post_history_created_at_idx
+    ON bot_post_history (created_at);
+CREATE INDEX IF NOT EXISTS bot_post_history_order_id_idx
+    ON bot_post_history ((payload->>'orderId'));
+`,
+
+  insertPostHistoryQuery: `
+INSERT INTO bot_post_history
+    (tweet_id, thread_id, account, text, template, copy, payload, image_hash, status, error, created_at)
+VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, COALESCE($11, NOW()));
+`,
+
+  // Skips tweets already in the history, so an import that was
+  // interrupted after committing doesn't add them twice
+  importLegacyPostQuery: `
+INSERT INTO bot_post_history
+    (tweet_id, thread_id, account, text, template, copy, status, created_at)
+SELECT $1, $2, $3, $4, $5, $6, 'posted', COALESCE($7, NOW())
+WHERE $1::text IS NULL
+    OR NOT EXISTS (SELECT 1 FROM bot_post_history WHERE tweet_id = $1);
+`,
+
+  // The search term matches literally: its LIKE wildcards are escaped
+  searchPostHistoryQuery: `
+SELECT *, COUNT(*) OVER() AS total
+FROM bot_post_history
+WHERE ($1::text IS NULL
+      OR text ILIKE '%' || REPLACE(REPLACE(REPLACE($1, '\\', '\\\\'), '%', '\\%'), '_', '\\_') || '%' ESCAPE '\\'
+      OR tweet_id = $1)
+    AND ($2::text IS NULL OR payload->>'orderId' = $2)
+    AND ($3::text IS NULL OR account = $3)
+    AND ($4::text IS NULL OR template = $4)
+    AND ($5::text IS NULL OR status = $5)
+    AND ($6::timestamptz IS NULL OR created_at >= $6)
+    AND ($7::timestamptz IS NULL OR created_at < $7)
+ORDER BY created_at DESC, id DESC
+LIMIT $8 OFFSET $9;
+`,
+
+  postedThreadHeadsQuery: `
+SELECT *
+FROM bot_post_history
+WHERE status = 'posted'
+    AND tweet_id IS NOT NULL
+    AND (thread_id IS NULL OR thread_id = tweet_id)
+    AND created_at >= $1
+ORDER BY created_at ASC;
+`,
 };
@@ -0,0 +1,113 @@
+import { db } from "./connection";
+import { queries } from "./queries";
+import { ensureBotTables } from "./schema";
+import { logger } from "../utils/logger";
+import { LeaderboardKind, LeaderboardRow, RollupTotals } from "../types";
+
+// Bounds of the days to read as [from, to), null for unbounded. Days are
+// ISO timestamps at midnight UTC.
+export type RollupRange = [string | null, string | null];
+
+export const rollups = {
+  /**
+   * Rebuilds the rollups of every day from the given day on, or of all
+   * history when it is null, and moves the watermark. Readers see either
+   * the old or the new rollups, never a partial rebuild.
+   * @param fromDay Midnight UTC of the first day to rebuild
+   * @param watermark Time the orders were rolled up until
+   */
+  rebuild: async (fromDay: Date | null, watermark: Date): Promise<void> => {
+    await ensureBotTables("rollups");
+    const from = fromDay ? fromDay.toISOString() : null;
+    const client = await db.pool.connect();
+
+    try {
+      await client.query("BEGIN");
+      await client.query(queries.deleteRollupsQuery, [from]);
+      const result = await client.query(queries.insertRollupsQuery, [
+        from,
+        null,
+      ]);
+      await client.query(queries.upsertRollupWatermarkQuery, [
+        watermark.toISOString(),
+        fromDay === null,
+      ]);
+      await client.query("COMMIT");
+
+      logger.info(
+        `Rebuilt ${result.rowCount} daily rollup rows ${from ? `from ${from.slice(0, 10)}` : "for all history"}`,
+      );
+    } catch (error) {
+      await client.query("ROLLBACK");
+      logger.error("Error rebuilding daily rollups:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  },
+
+  /**
+   * Returns the time orders were last rolled up until, or null when the
+   * rollups were never built for all history
+   */
+  getWatermark: async (): Promise<Date | null> => {
+    await ensureBotTables("rollups");
+    const result = await db.query(queries.selectRollupStateQuery);
+    const state = result.rows[0];
+    return state?.full_history ? new Date(state.watermark) : null;
+  },
+
+  getTotals: async (range: RollupRange): Promise<RollupTotals> => {
+    const result = await db.query(queries.rollupTotalsQuery, range);
+    const row = result.rows[0];
+    return {
+      orders: parseInt(row?.total_orders || "0"),
+      fulfilled: parseInt(row?.fulfilled_orders || "0"),
+      refunded: parseInt(row?.refunded_orders || "0"),
+      expired: parseInt(row?.expired_orders || "0"),
+      volume: Number(row?.volume || 0),
+    };
+  },
+
+  /**
+   * Returns the lower-cased source chain with the most successful orders
+   * and its order count, or null when there were none
+   */
+  getTopChain: async (
+    range: RollupRange,
+  ): Promise<{ chain: string; count: number } | null> => {
+    const result = await db.query(queries.rollupTopChainQuery, range);
+    const top = result.rows[0];
+    return top ? { chain: top.chain, count: parseInt(top.count) } : null;
+  },
+
+  /**
+   * Returns the lower-cased source chain and asset with the most
+   * successful orders and its order count, or null when there were none
+   */
+  getTopAssetPair: async (
+    range: RollupRange,
+  ): Promise<{ chain: string; asset: string; count: number } | null> => {
+    const result = await db.query(queries.rollupTopAssetPairQuery, range);
+    const top = result.rows[0];
+    return top
+      ? { chain: top.chain, asset: top.asset, count: parseInt(top.count) }
+      : null;
+  },
+
+  /**
+   * Returns the top source chains, destination chains or routes by volume
+   */
+  getLeaderboard: async (
+    range: RollupRange,
+    kind: LeaderboardKind,
+    size: number,
+  ): Promise<LeaderboardRow[]> => {
+    const result = await db.query(queries.rollupLeaderboardQuery, [
+      ...range,
+      kind,
+      size,
+    ]);
+    return result.rows;
+  },
+};
@@ -0,0 +1,77 @@
+import { db } from "./connection";
+import { queries } from "./queries";
+import { logger } from "../utils/logger";
+
+// Tables the bot keeps next to the orderbook tables, grouped by the
+// statement creating them
+const BOT_TABLES = {
+  assetDecimals: {
+    tables: ["bot_asset_decimals"],
+    query: queries.createAssetDecimalsTableQuery,
+  },
+  rollups: {
+    tables: ["bot_daily_rollups", "bot_rollup_state"],
+    query: queries.createRollupTablesQuery,
+  },
+  tokens: {
+    tables: ["bot_tokens"],
+    query: queries.createTokensTableQuery,
+  },
+  postHistory: {
+    tables: ["bot_post_history"],
+    query: queries.createPostHistoryTableQuery,
+  },
+};
+
+export type BotTables = keyof typeof BOT_TABLES;
+
+// Postgres error code for a missing privilege
+const INSUFFICIENT_PRIVILEGE = "42501";
+
+const ensured = new Set<BotTables>();
+
+/**
+ * Makes sure the tables of a feature exist. Tables created by
+ * `npm run migrate` are only looked up, so the bot's database user needs
+ * no DDL privileges once they exist.
+ * @throws Error if a table is missing and the user may not create it
+ */
+export async function ensureBotTables(name: BotTables): Promise<void> {
+  if (ensured.has(name)) {
+    return;
+  }
+
+  const { tables, query } = BOT_TABLES[name];
+  const missing: string[] = [];
+  for (const table of tables) {
+    const result = await db.query(queries.tableExistsQuery, [table]);
+    if (!result.rows[0].name) {
+      missing.push(table);
+    }
+  }
+
+  if (missing.length > 0) {
+    try {
+      await db.query(query);
+    } catch (error: any) {
+      if (error.code === INSUFFICIENT_PRIVILEGE) {
+        throw new Error(
+          `Tables ${missing.join(", ")} are missing and the database user can't create them. Run \`npm run migrate\` as a user with CREATE privileges.`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  ensured.add(name);
+}
+
+/**
+ * Creates every table the bot uses that doesn't exist yet
+ */
+export async function createBotTables(): Promise<void> {
+  for (const [name, { query }] of Object.entries(BOT_TABLES)) {
+    await db.query(query);
+    logger.info(`Created the ${name} tables if missing`);
+  }
+}
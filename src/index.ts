@@ -1,18 +1,43 @@
 import express from "express";
 import { logger } from "./utils/logger";
-import { authRouter, statusRouter } from "./routes";
+import {
+  adminRouter,
+  apiRouter,
+  approvalRouter,
+  authRouter,
+  jobsRouter,
+  statusRouter,
+} from "./routes";
+import { createSessionMiddleware } from "./middleware/auth";
+import { scheduler } from "./services/scheduler";
+import { registerJobs } from "./services/jobs";
+import { postingRules } from "./services/rules";
+import { postHistory } from "./services/postHistory";
+import { loadTokenData } from "./utils/utilities";
+import { checkFfmpeg } from "./utils/animation";
+import { validateChannelRouting } from "./services/publishers";
 
 async function main() {
   logger.info("Starting Twitter Metrics Bot...");
 
+  validateChannelRouting();
+  await loadTokenData();
+  await postHistory.init();
+  checkFfmpeg();
+
   const PORT = process.env.PORT || 3000;
   const app = express();
 
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
+  app.use(createSessionMiddleware());
 
+  app.use(adminRouter);
   app.use(authRouter);
   app.use(statusRouter);
+  app.use(jobsRouter);
+  app.use(approvalRouter);
+  app.use(apiRouter);
 
   app.listen(PORT, () => {
     logger.info(`Server running on port ${PORT}`);
@@ -21,8 +46,15 @@ async function main() {
     );
   });
 
+  postingRules.load();
+  postingRules.watch();
+
+  registerJobs();
+  scheduler.start();
+
   process.on("SIGINT", () => {
     logger.info("Server shutting down...");
+    scheduler.stop();
     process.exit(0);
   });
 }
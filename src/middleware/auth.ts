@@ -0,0 +1,91 @@
+import crypto from "crypto";
+import session from "express-session";
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { adminConfig } from "../config/admin";
+import { apiConfig } from "../config/api";
+
+/**
+ * Creates the session middleware the admin login is stored in
+ * @throws Error if no session secret is configured
+ */
+export function createSessionMiddleware(): RequestHandler {
+  if (!adminConfig.sessionSecret) {
+    throw new Error("SESSION_SECRET must be set to enable admin sessions");
+  }
+
+  return session({
+    secret: adminConfig.sessionSecret,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      // Lax keeps the cookie on the top-level redirect back from Twitter
+      sameSite: "lax",
+      secure: adminConfig.secureCookie,
+      maxAge: adminConfig.sessionMaxAgeHours * 60 * 60 * 1000,
+    },
+  });
+}
+
+// Hashing first gives both values the same length for timingSafeEqual
+const safeEqual = (a: string, b: string): boolean =>
+  crypto.timingSafeEqual(
+    crypto.createHash("sha256").update(a).digest(),
+    crypto.createHash("sha256").update(b).digest(),
+  );
+
+/**
+ * Checks login credentials against the configured admin account
+ */
+export function verifyAdminCredentials(
+  username: string,
+  password: string,
+): boolean {
+  if (!adminConfig.password) {
+    return false;
+  }
+  const usernameMatches = safeEqual(username, adminConfig.username);
+  const passwordMatches = safeEqual(password, adminConfig.password);
+  return usernameMatches && passwordMatches;
+}
+
+/**
+ * Only lets requests from a logged-in admin session through. Page
+ * requests are redirected to the login form, anything else gets a 401.
+ */
+export function requireAdmin(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void {
+  if (req.session?.admin) {
+    return next();
+  }
+
+  if (req.method === "GET") {
+    return res.redirect(`/login?next=${encodeURIComponent(req.originalUrl)}`);
+  }
+  res.status(401).send("Admin login required");
+}
+
+/**
+ * Lets requests with the configured API bearer token or from a logged-in
+ * admin session through. Anything else gets a 401 JSON error.
+ */
+export function requireApiToken(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void {
+  if (req.session?.admin) {
+    return next();
+  }
+
+  const header = req.headers.authorization || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  if (apiConfig.token && token && safeEqual(token, apiConfig.token)) {
+    return next();
+  }
+
+  res.status(401).json({ error: "API token required" });
+}
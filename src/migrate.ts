@@ -0,0 +1,16 @@
+import { createBotTables } from "./database/schema";
+import { db } from "./database/connection";
+import { logger } from "./utils/logger";
+
+// Creates the bot's tables in the orderbook database. Run it as a user
+// with CREATE privileges, e.g. `DB_USER=admin npm run migrate`, so the
+// bot itself can run as a user without them.
+async function main() {
+  await createBotTables();
+  await db.pool.end();
+}
+
+main().catch((error) => {
+  logger.error("Migration failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,75 @@
+import { Router, Request, Response } from "express";
+import { verifyAdminCredentials } from "../middleware/auth";
+import { adminConfig } from "../config/admin";
+import { logger } from "../utils/logger";
+
+const router = Router();
+
+/**
+ * Only allows redirects to local paths after login
+ */
+const getRedirectTarget = (next: unknown): string =>
+  typeof next === "string" && next.startsWith("/") && !next.startsWith("//")
+    ? next
+    : "/status";
+
+const renderLogin = (next: string, error?: string): string => `
+  <h1>Twitter Metrics Bot Login</h1>
+  ${error ? `<p style="color: red;">${error}</p>` : ""}
+  ${
+    adminConfig.password
+      ? ""
+      : "<p>Admin login is disabled until ADMIN_PASSWORD is configured.</p>"
+  }
+  <form method="post" action="/login?next=${encodeURIComponent(next)}">
+    <p><label>Username <input name="username" autocomplete="username" /></label></p>
+    <p><label>Password <input name="password" type="password" autocomplete="current-password" /></label></p>
+    <button>Log in</button>
+  </form>
+`;
+
+router.get("/login", (req: Request, res: Response) => {
+  const next = getRedirectTarget(req.query.next);
+  if (req.session.admin) {
+    return res.redirect(next);
+  }
+  res.send(renderLogin(next));
+});
+
+router.post("/login", (req: Request, res: Response) => {
+  const next = getRedirectTarget(req.query.next);
+  const username = String(req.body.username || "");
+  const password = String(req.body.password || "");
+
+  if (!verifyAdminCredentials(username, password)) {
+    logger.warn(`Failed admin login attempt for ${username || "(empty)"}`);
+    return res.status(401).send(renderLogin(next, "Invalid credentials"));
+  }
+
+  // Issue a new session id on login to prevent session fixation
+  req.session.regenerate((error) => {
+    if (error) {
+      logger.error("Error creating admin session:", error);
+      return res.status(500).send("Login failed");
+    }
+
+    req.session.admin = username;
+    logger.info(`Admin ${username} logged in`);
+    res.redirect(next);
+  });
+});
+
+router.post("/logout", (req: Request, res: Response) => {
+  const admin = req.session.admin;
+  req.session.destroy((error) => {
+    if (error) {
+      logger.error("Error ending admin session:", error);
+    }
+    if (admin) {
+      logger.info(`Admin ${admin} logged out`);
+    }
+    res.redirect("/login");
+  });
+});
+
+export default router;
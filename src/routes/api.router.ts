@@ -0,0 +1,150 @@
+import { Router, Request, Response } from "express";
+import { requireApiToken } from "../middleware/auth";
+import { getMetricsTimeseries, getUserMetrics } from "../database";
+import {
+  detectFailureSpikes,
+  getRecentAlerts,
+} from "../services/failureAnalysis";
+import { apiConfig } from "../config/api";
+import { botConfig } from "../config/bot";
+import { logger } from "../utils/logger";
+import { TimeseriesGranularity, TimeseriesGroupBy } from "../types";
+
+const router = Router();
+
+const GRANULARITY_MS: Record<TimeseriesGranularity, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+const GROUP_BYS: TimeseriesGroupBy[] = ["chain", "pair"];
+// 1970-01-05, the first Monday of the epoch, where ISO weeks line up
+const FIRST_MONDAY = Date.UTC(1970, 0, 5);
+const MAX_RETENTION_WEEKS = 52;
+
+const parseDate = (value: unknown): Date | null => {
+  if (typeof value !== "string" || !value) {
+    return null;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+router.use("/api", requireApiToken);
+
+/**
+ * Order counts, completion, refund and expiry rates and USD volume per
+ * time bucket, including empty ones. Each point reports the share of its
+ * bucket the range covers.
+ * Query: from and to (ISO dates, default the last API_DEFAULT_TIMESERIES_DAYS
+ * days), granularity (hour, day or week, default day) and an optional
+ * groupBy (chain or pair).
+ */
+router.get("/api/metrics/timeseries", async (req: Request, res: Response) => {
+  const { from, to, granularity = "day", groupBy } = req.query;
+
+  if (!(typeof granularity === "string" && granularity in GRANULARITY_MS)) {
+    return res.status(400).json({
+      error: `granularity must be one of ${Object.keys(GRANULARITY_MS).join(", ")}`,
+    });
+  }
+  if (
+    groupBy !== undefined &&
+    !GROUP_BYS.includes(groupBy as TimeseriesGroupBy)
+  ) {
+    return res
+      .status(400)
+      .json({ error: `groupBy must be one of ${GROUP_BYS.join(", ")}` });
+  }
+
+  const toDate = to === undefined ? new Date() : parseDate(to);
+  const fromDate =
+    from === undefined
+      ? toDate &&
+        new Date(
+          toDate.getTime() -
+            apiConfig.defaultTimeseriesDays * GRANULARITY_MS.day,
+        )
+      : parseDate(from);
+  if (!fromDate || !toDate) {
+    return res.status(400).json({ error: "from and to must be ISO dates" });
+  }
+  if (fromDate >= toDate) {
+    return res.status(400).json({ error: "from must be before to" });
+  }
+
+  // Buckets start on the hour, day or Monday before from
+  const bucketMs = GRANULARITY_MS[granularity as TimeseriesGranularity];
+  const firstBucket =
+    fromDate.getTime() -
+    ((((fromDate.getTime() - FIRST_MONDAY) % bucketMs) + bucketMs) % bucketMs);
+  const buckets = Math.ceil((toDate.getTime() - firstBucket) / bucketMs);
+  if (buckets > apiConfig.maxTimeseriesBuckets) {
+    return res.status(400).json({
+      error: `The range spans ${buckets} ${granularity} buckets, at most ${apiConfig.maxTimeseriesBuckets} are allowed`,
+    });
+  }
+
+  try {
+    const points = await getMetricsTimeseries({
+      from: fromDate,
+      to: toDate,
+      granularity: granularity as TimeseriesGranularity,
+      groupBy: groupBy as TimeseriesGroupBy | undefined,
+    });
+
+    res.json({
+      from: fromDate.toISOString(),
+      to: toDate.toISOString(),
+      granularity,
+      groupBy: groupBy || null,
+      points,
+    });
+  } catch (error) {
+    logger.error("Error serving metrics timeseries:", error);
+    res.status(500).json({ error: "Failed to calculate metrics" });
+  }
+});
+
+/**
+ * Total, active, new and returning users over the last 24 hours and the
+ * weekly retention cohorts. Query: weeks (number of cohorts, default
+ * RETENTION_WEEKS).
+ */
+router.get("/api/metrics/users", async (req: Request, res: Response) => {
+  const weeks =
+    req.query.weeks === undefined
+      ? botConfig.retentionWeeks
+      : Number(req.query.weeks);
+  if (!Number.isInteger(weeks) || weeks < 1 || weeks > MAX_RETENTION_WEEKS) {
+    return res.status(400).json({
+      error: `weeks must be a whole number between 1 and ${MAX_RETENTION_WEEKS}`,
+    });
+  }
+
+  try {
+    res.json(await getUserMetrics(weeks));
+  } catch (error) {
+    logger.error("Error serving user metrics:", error);
+    res.status(500).json({ error: "Failed to calculate metrics" });
+  }
+});
+
+/**
+ * Refund and expiry rates that currently spike against their baseline,
+ * whether or not they were alerted yet, and the most recent alerts. Rates
+ * over time are served by the timeseries endpoint.
+ */
+router.get("/api/metrics/failures", async (req: Request, res: Response) => {
+  try {
+    res.json({
+      spikes: await detectFailureSpikes(),
+      alerts: getRecentAlerts(),
+    });
+  } catch (error) {
+    logger.error("Error serving failure spikes:", error);
+    res.status(500).json({ error: "Failed to calculate metrics" });
+  }
+});
+
+export default router;
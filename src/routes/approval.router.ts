@@ -0,0 +1,93 @@
+import { Router, Request, Response } from "express";
+import { requireAdmin } from "../middleware/auth";
+import { approvalQueue } from "../services/approvalQueue";
+import { logger } from "../utils/logger";
+import { escapeHtml } from "../utils/utilities";
+import { PendingPost, PendingPostStatus } from "../types";
+
+const router = Router();
+
+router.use("/approvals", requireAdmin);
+
+const renderPost = (post: PendingPost): string => `
+  <li style="margin-bottom: 24px;">
+    <p><strong>${post.status.toUpperCase()}</strong> · ${escapeHtml(post.account)} · queued ${new Date(
+      post.createdAt,
+    ).toLocaleString()} · expires ${new Date(post.expiresAt).toLocaleString()}${
+      post.orderId ? ` · order ${escapeHtml(post.orderId)}` : ""
+    }${post.tweetId ? ` · tweet ${post.tweetId}` : ""}${
+      post.retryId ? " · queued for retry" : ""
+    }${post.error ? ` · error: ${escapeHtml(post.error)}` : ""}</p>
+    ${
+      !post.imagePath
+        ? ""
+        : post.imagePath.endsWith(".mp4")
+          ? `<video src="/approvals/${post.id}/image" controls muted style="max-width: 400px; display: block;"></video>`
+          : `<img src="/approvals/${post.id}/image" style="max-width: 400px; display: block;" />`
+    }
+    ${
+      post.status === "pending"
+        ? `<form method="post" action="/approvals/${post.id}/text">
+            <textarea name="text" rows="5" cols="60">${escapeHtml(post.text)}</textarea><br />
+            <button>Save copy</button>
+          </form>
+          <form method="post" action="/approvals/${post.id}/approve" style="display: inline"><button>Approve</button></form>
+          <form method="post" action="/approvals/${post.id}/reject" style="display: inline"><button>Reject</button></form>`
+        : `<pre>${escapeHtml(post.text)}</pre>`
+    }
+  </li>`;
+
+router.get("/approvals", (req: Request, res: Response) => {
+  const status = req.query.status as PendingPostStatus | undefined;
+  const posts = approvalQueue.list(status);
+
+  res.send(`
+    <h1>Pending Posts</h1>
+    <p>
+      <a href="/approvals?status=pending">Pending</a> ·
+      <a href="/approvals">All</a> ·
+      <a href="/status">Bot status</a>
+    </p>
+    <ul>${posts.map(renderPost).join("") || "<li>No posts</li>"}</ul>
+  `);
+});
+
+router.get("/approvals/:id/image", (req: Request, res: Response) => {
+  const post = approvalQueue.get(req.params.id);
+  if (!post?.imagePath) {
+    return res.status(404).send("Image not found");
+  }
+  res.sendFile(post.imagePath);
+});
+
+router.post("/approvals/:id/text", (req: Request, res: Response) => {
+  try {
+    approvalQueue.updateText(req.params.id, String(req.body.text || ""));
+    res.redirect("/approvals?status=pending");
+  } catch (error: any) {
+    logger.error("Error updating pending post:", error);
+    res.status(400).send(error.message);
+  }
+});
+
+router.post("/approvals/:id/approve", async (req: Request, res: Response) => {
+  try {
+    await approvalQueue.approve(req.params.id);
+    res.redirect("/approvals");
+  } catch (error: any) {
+    logger.error("Error approving pending post:", error);
+    res.status(400).send(error.message);
+  }
+});
+
+router.post("/approvals/:id/reject", (req: Request, res: Response) => {
+  try {
+    approvalQueue.reject(req.params.id);
+    res.redirect("/approvals");
+  } catch (error: any) {
+    logger.error("Error rejecting pending post:", error);
+    res.status(400).send(error.message);
+  }
+});
+
+export default router;
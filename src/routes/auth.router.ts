@@ -1,20 +1,26 @@
 import { Router, Request, Response } from "express";
 import { twitterService } from "../services/twitter";
+import { requireAdmin } from "../middleware/auth";
 import { logger } from "../utils/logger";
+import { escapeHtml } from "../utils/utilities";
 
 const router = Router();
 
-router.get("/auth", (req: Request, res: Response) => {
+router.get("/auth", requireAdmin, (req: Request, res: Response) => {
   try {
-    const url = twitterService.getAuthUrl();
+    const account = req.query.account?.toString();
+    const { url, ...pending } = twitterService.getAuthUrl(account);
+
+    // Kept per session so concurrent auth attempts don't clobber each other
+    req.session.oauth = pending;
     res.redirect(url);
-  } catch (error) {
+  } catch (error: any) {
     logger.error("Authentication error:", error);
-    res.status(500).send("Authentication failed");
+    res.status(500).send("Authentication failed: " + escapeHtml(error.message));
   }
 });
 
-router.get("/callback", async (req: Request, res: Response) => {
+router.get("/callback", requireAdmin, async (req: Request, res: Response) => {
   try {
     const { state, code } = req.query;
 
@@ -22,20 +28,26 @@ router.get("/callback", async (req: Request, res: Response) => {
       return res.status(400).send("Missing state or code parameters");
     }
 
-    const userData = await twitterService.handleCallback(
+    const pending = req.session.oauth;
+    delete req.session.oauth;
+
+    const { account, user } = await twitterService.handleCallback(
+      pending,
       state.toString(),
       code.toString(),
     );
 
     res.send(`
       <h1>Authentication Successful!</h1>
-      <p>Welcome ${userData.name || userData.username}!</p>
-      <p>Your Twitter metrics bot has been activated.</p>
+      <p>Welcome ${escapeHtml(user.name || user.username)}!</p>
+      <p>The ${escapeHtml(account)} account of your Twitter metrics bot has been activated.</p>
       <p><a href="/status">View bot status</a></p>
     `);
   } catch (error: any) {
     logger.error("Callback error:", error);
-    res.status(500).send("Callback processing failed: " + error.message);
+    res
+      .status(500)
+      .send("Callback processing failed: " + escapeHtml(error.message));
   }
 });
 
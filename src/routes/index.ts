@@ -1,4 +1,15 @@
 import authRouter from "./auth.router";
 import statusRouter from "./status.router";
+import jobsRouter from "./jobs.router";
+import approvalRouter from "./approval.router";
+import adminRouter from "./admin.router";
+import apiRouter from "./api.router";
 
-export { authRouter, statusRouter };
+export {
+  authRouter,
+  statusRouter,
+  jobsRouter,
+  approvalRouter,
+  adminRouter,
+  apiRouter,
+};
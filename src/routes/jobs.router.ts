@@ -0,0 +1,39 @@
+import { Router, Request, Response } from "express";
+import { requireAdmin } from "../middleware/auth";
+import { scheduler } from "../services/scheduler";
+import { logger } from "../utils/logger";
+
+const router = Router();
+
+router.use("/jobs", requireAdmin);
+
+router.get("/jobs", (req: Request, res: Response) => {
+  res.json(scheduler.getStatus());
+});
+
+router.post("/jobs/:name/:action", async (req: Request, res: Response) => {
+  const { name, action } = req.params;
+
+  try {
+    switch (action) {
+      case "start":
+        scheduler.start(name);
+        break;
+      case "stop":
+        scheduler.stop(name);
+        break;
+      case "run":
+        await scheduler.runNow(name);
+        break;
+      default:
+        return res.status(400).send(`Unknown job action: ${action}`);
+    }
+
+    res.redirect("/status");
+  } catch (error: any) {
+    logger.error(`Job ${action} failed for ${name}:`, error);
+    res.status(404).send(error.message);
+  }
+});
+
+export default router;
@@ -1,34 +1,302 @@
 import { Router, Request, Response } from "express";
+import { requireAdmin } from "../middleware/auth";
 import { twitterService } from "../services/twitter";
+import { twitterConfig } from "../config/twitter";
+import { publisherConfig } from "../config/publishers";
+import { scheduler } from "../services/scheduler";
+import { approvalQueue } from "../services/approvalQueue";
+import { postingRules } from "../services/rules";
+import { retryQueue } from "../services/retryQueue";
+import { postHistory } from "../services/postHistory";
+import {
+  getEngagements,
+  getTrackedTweet,
+  getTrackedTweets,
+  getVariantPerformance,
+} from "../services/engagement";
+import { escapeHtml } from "../utils/utilities";
+import { logger } from "../utils/logger";
+import {
+  EngagementSample,
+  PostHistoryEntry,
+  PostHistoryFilters,
+  PostHistoryStatus,
+} from "../types";
 
 const router = Router();
 
-router.get("/status", (req: Request, res: Response) => {
+const renderSample = (sample: EngagementSample): string =>
+  `${sample.impressions} impressions, ${sample.likes} likes, ${
+    sample.retweets
+  } retweets, ${sample.replies} replies, ${sample.bookmarks} bookmarks`;
+
+const HISTORY_PAGE_SIZE = 25;
+const HISTORY_STATUSES: PostHistoryStatus[] = [
+  "posted",
+  "dry-run",
+  "queued",
+  "failed",
+];
+
+const renderHistoryEntry = (entry: PostHistoryEntry): string =>
+  `<tr><td>${new Date(entry.createdAt).toLocaleString()}</td><td>${escapeHtml(
+    entry.account,
+  )}</td><td>${entry.status}${
+    entry.error ? `: ${escapeHtml(entry.error)}` : ""
+  }</td><td>${entry.template || "-"}/${entry.copy || "-"}</td><td>${
+    entry.payload?.orderId ? escapeHtml(entry.payload.orderId) : "-"
+  }</td><td>${escapeHtml(entry.text)}</td><td>${
+    entry.tweetId
+      ? `<a href="https://x.com/i/web/status/${entry.tweetId}">${entry.tweetId}</a>`
+      : "-"
+  }</td></tr>`;
+
+const renderHistoryTable = (entries: PostHistoryEntry[]): string => `
+  <table border="1" cellpadding="4">
+    <tr><th>Time</th><th>Account</th><th>Status</th><th>Template/copy</th><th>Order</th><th>Text</th><th>Tweet</th></tr>
+    ${entries.map(renderHistoryEntry).join("") || '<tr><td colspan="7">No posts</td></tr>'}
+  </table>
+`;
+
+// Parses a yyyy-mm-dd query parameter
+const parseDate = (value: unknown): Date | undefined => {
+  const date = typeof value === "string" && value ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date : undefined;
+};
+
+router.get("/status", requireAdmin, async (req: Request, res: Response) => {
   if (!twitterService.isAuthenticated()) {
     return res.redirect("/");
   }
 
-  const recentTweets = twitterService.getRecentTweets();
+  let recentTweets: string;
+  try {
+    const { entries } = await postHistory.search({}, 1, 10);
+    recentTweets = renderHistoryTable(entries);
+  } catch (error) {
+    logger.error("Error loading post history:", error);
+    recentTweets = "<p>Post history is unavailable.</p>";
+  }
+  const jobs = scheduler.getStatus();
+  const rules = postingRules.getStatus();
+  const twitterStatus = twitterService.getStatus();
+  const failedPosts = retryQueue.list("failed");
+  const performance = getVariantPerformance();
+  const trackedTweets = getTrackedTweets().slice(0, 20);
 
   res.send(`
     <h1>Twitter Bot Status</h1>
+    <form method="post" action="/logout"><button>Log out</button></form>
     <p><strong>Status:</strong> ${
       twitterService.isAuthenticated() ? "Active" : "Inactive"
     }</p>
-    <p><strong>Recent tweets:</strong></p>
+    <p><strong>Publish mode:</strong> ${twitterStatus.publishMode}</p>
+    <p><strong>Accounts:</strong></p>
+    <ul>
+      ${twitterStatus.accounts
+        .map(
+          (account) =>
+            `<li>${account.account}: ${
+              account.authenticated
+                ? `authenticated, token expires ${
+                    account.expiresAt
+                      ? new Date(account.expiresAt).toLocaleString()
+                      : "-"
+                  }`
+                : "not authenticated"
+            }, ${
+              account.rateLimitedUntil
+                ? `rate limited until ${new Date(account.rateLimitedUntil).toLocaleString()}`
+                : "not rate limited"
+            }, routes: ${account.routes.join(", ") || "none"}
+            <a href="/auth?account=${encodeURIComponent(account.account)}">${
+              account.authenticated ? "Reconnect" : "Connect"
+            }</a></li>`,
+        )
+        .join("")}
+    </ul>
+    <p><strong>Channels:</strong></p>
+    <ul>
+      ${Object.entries(publisherConfig.routing)
+        .map(([route, channels]) => `<li>${route}: ${channels.join(", ")}</li>`)
+        .join("")}
+    </ul>
+    <p><strong>Posting rules:</strong> ${rules.count} loaded ${
+      rules.loadedAt ? `at ${new Date(rules.loadedAt).toLocaleString()}` : ""
+    }${rules.lastError ? ` (last reload failed: ${escapeHtml(rules.lastError)})` : ""}</p>
+    <p><strong>Pending approvals:</strong> <a href="/approvals?status=pending">${
+      approvalQueue.list("pending").length
+    }</a></p>
+    <p><strong>Queued retries:</strong> ${retryQueue.list("queued").length}</p>
+    <p><strong>Failed posts:</strong> ${failedPosts.length}</p>
+    <ul>
+      ${failedPosts
+        .map(
+          (post) =>
+            `<li>${new Date(post.createdAt).toLocaleString()} (${post.kind} on ${
+              post.account
+            }, ${post.attempts} attempts): "${escapeHtml(
+              post.segments[0]?.text || "",
+            )}" - ${escapeHtml(post.lastError)}</li>`,
+        )
+        .join("")}
+    </ul>
+    <p><strong>Best performing variants:</strong></p>
+    <table border="1" cellpadding="4">
+      <tr><th>Variant</th><th>Posts</th><th>Avg impressions</th><th>Avg engagements</th><th>Engagement rate</th></tr>
+      ${performance
+        .map(
+          (entry) =>
+            `<tr><td>${entry.dimension}: ${entry.variant}</td><td>${
+              entry.posts
+            }</td><td>${entry.avgImpressions.toFixed(0)}</td><td>${entry.avgEngagements.toFixed(
+              1,
+            )}</td><td>${(entry.engagementRate * 100).toFixed(2)}%</td></tr>`,
+        )
+        .join("")}
+    </table>
+    <p><strong>Engagement:</strong></p>
+    <ul>
+      ${trackedTweets
+        .map((tweet) => {
+          const latest = tweet.samples[tweet.samples.length - 1];
+          return `<li><a href="/engagement/${tweet.id}">${new Date(
+            tweet.postedAt,
+          ).toLocaleString()}</a> (${escapeHtml(tweet.account)}, ${
+            tweet.template || "-"
+          }/${tweet.copy || "-"}): ${
+            latest ? renderSample(latest) : "no metrics yet"
+          }</li>`;
+        })
+        .join("")}
+    </ul>
+    <p><strong>Recent tweets:</strong> <a href="/history">Search post history</a></p>
+    ${recentTweets}
+    <p><strong>Jobs:</strong></p>
     <ul>
-      ${recentTweets
+      ${jobs
         .map(
-          (tweet) =>
-            `<li>${new Date(tweet.timestamp).toLocaleString()}: "${
-              tweet.message
-            }"</li>`,
+          (job) =>
+            `<li>${job.name} (${job.cron}, ${job.timezone}): ${
+              job.inProgress ? "running" : job.active ? "scheduled" : "stopped"
+            }, last run ${job.lastRunAt || "never"}, next run ${
+              job.nextRunAt || "-"
+            }${job.lastError ? `, last error: ${escapeHtml(job.lastError)}` : ""}
+            <form method="post" action="/jobs/${job.name}/run" style="display: inline"><button>Run now</button></form>
+            <form method="post" action="/jobs/${job.name}/${
+              job.active ? "stop" : "start"
+            }" style="display: inline"><button>${
+              job.active ? "Stop" : "Start"
+            }</button></form></li>`,
         )
         .join("")}
     </ul>
   `);
 });
 
+router.get("/history", requireAdmin, async (req: Request, res: Response) => {
+  const query = (name: string): string | undefined =>
+    typeof req.query[name] === "string" && req.query[name]
+      ? (req.query[name] as string).trim()
+      : undefined;
+
+  const status = query("status") as PostHistoryStatus | undefined;
+  const to = parseDate(req.query.to);
+  const filters: PostHistoryFilters = {
+    text: query("q"),
+    orderId: query("orderId"),
+    account: query("account"),
+    template: query("template"),
+    status: status && HISTORY_STATUSES.includes(status) ? status : undefined,
+    from: parseDate(req.query.from),
+    // The end date is inclusive
+    to: to && new Date(to.getTime() + 24 * 60 * 60 * 1000),
+  };
+  const page = Math.max(1, parseInt(query("page") || "1") || 1);
+
+  try {
+    const { entries, total } = await postHistory.search(
+      filters,
+      page,
+      HISTORY_PAGE_SIZE,
+    );
+    const pages = Math.max(1, Math.ceil(total / HISTORY_PAGE_SIZE));
+
+    const params = new URLSearchParams(
+      Object.entries(req.query).filter(
+        ([name, value]) => name !== "page" && typeof value === "string",
+      ) as [string, string][],
+    );
+    const pageLink = (target: number, label: string): string => {
+      params.set("page", String(target));
+      return `<a href="/history?${escapeHtml(params.toString())}">${label}</a>`;
+    };
+    const input = (name: string, label: string, type = "text"): string =>
+      `<label>${label} <input name="${name}" type="${type}" value="${escapeHtml(
+        query(name) || "",
+      )}" /></label>`;
+
+    res.send(`
+      <h1>Post history</h1>
+      <p><a href="/status">Bot status</a></p>
+      <form method="get" action="/history">
+        ${input("q", "Text or tweet id")}
+        ${input("orderId", "Order id")}
+        ${input("account", "Account")}
+        ${input("template", "Template")}
+        <label>Status <select name="status">
+          <option value="">any</option>
+          ${HISTORY_STATUSES.map(
+            (value) =>
+              `<option${value === filters.status ? " selected" : ""}>${value}</option>`,
+          ).join("")}
+        </select></label>
+        ${input("from", "From", "date")}
+        ${input("to", "To", "date")}
+        <button>Search</button>
+      </form>
+      <p>${total} posts, page ${page} of ${pages} ${
+        page > 1 ? pageLink(page - 1, "Previous") : ""
+      } ${page < pages ? pageLink(page + 1, "Next") : ""}</p>
+      ${renderHistoryTable(entries)}
+    `);
+  } catch (error) {
+    logger.error("Error searching post history:", error);
+    res.status(500).send("Error searching post history");
+  }
+});
+
+router.get("/engagement/:id", requireAdmin, (req: Request, res: Response) => {
+  const tweet = getTrackedTweet(req.params.id);
+  if (!tweet) {
+    return res.status(404).send("Tweet is not tracked");
+  }
+
+  res.send(`
+    <h1>Engagement for tweet ${tweet.id}</h1>
+    <p><a href="/status">Bot status</a></p>
+    <p>Posted ${new Date(tweet.postedAt).toLocaleString()} from ${escapeHtml(
+      tweet.account,
+    )} with template ${tweet.template || "-"} and copy ${tweet.copy || "-"}</p>
+    <pre>${escapeHtml(tweet.message)}</pre>
+    <table border="1" cellpadding="4">
+      <tr><th>Fetched</th><th>Impressions</th><th>Likes</th><th>Retweets</th><th>Replies</th><th>Quotes</th><th>Bookmarks</th><th>Engagements</th></tr>
+      ${tweet.samples
+        .map(
+          (sample) =>
+            `<tr><td>${new Date(sample.fetchedAt).toLocaleString()}</td><td>${
+              sample.impressions
+            }</td><td>${sample.likes}</td><td>${sample.retweets}</td><td>${
+              sample.replies
+            }</td><td>${sample.quotes}</td><td>${sample.bookmarks}</td><td>${getEngagements(
+              sample,
+            )}</td></tr>`,
+        )
+        .join("")}
+    </table>
+  `);
+});
+
 router.get("/", (req: Request, res: Response) => {
   if (twitterService.isAuthenticated()) {
     res.redirect("/status");
@@ -36,8 +304,13 @@ router.get("/", (req: Request, res: Response) => {
     res.send(`
       <h1>Twitter Metrics Bot Setup</h1>
       <p>This application will post metrics to Twitter using your selected template.</p>
-      <p>Click the button below to authenticate with Twitter and activate the bot:</p>
-      <p><a href="/auth" style="display: inline-block; background-color: #1DA1F2; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Connect Twitter Account</a></p>
+      <p>Click the buttons below to authenticate each account with Twitter and activate the bot:</p>
+      ${twitterConfig.accounts
+        .map(
+          (account) =>
+            `<p><a href="/auth?account=${encodeURIComponent(account)}" style="display: inline-block; background-color: #1DA1F2; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Connect ${account} Twitter Account</a></p>`,
+        )
+        .join("")}
     `);
   }
 });
@@ -0,0 +1,24 @@
+import { scheduler } from "./services/scheduler";
+import { registerJobs } from "./services/jobs";
+import { db } from "./database/connection";
+import { logger } from "./utils/logger";
+import { loadTokenData } from "./utils/utilities";
+
+// Registers the bot jobs and runs each of them once without starting the
+// HTTP server, e.g. `npm run run-jobs`
+async function main() {
+  await loadTokenData();
+  registerJobs();
+
+  for (const job of scheduler.getStatus()) {
+    await scheduler.runNow(job.name);
+  }
+
+  logger.info("Job status:", scheduler.getStatus());
+  await db.pool.end();
+}
+
+main().catch((error) => {
+  logger.error("Running the jobs failed:", error);
+  process.exit(1);
+});
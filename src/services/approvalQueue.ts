@@ -0,0 +1,247 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { twitterService } from "./twitter";
+import { publishToChannel } from "./publishers";
+import { copyImage, getAltTextPath } from "../templates/base";
+import { botConfig } from "../config/bot";
+import { logger } from "../utils/logger";
+import {
+  PendingPost,
+  PendingPostStatus,
+  PostVariant,
+  PublisherName,
+} from "../types";
+
+export const PENDING_POSTS_FILE: string =
+  process.env.PENDING_POSTS_FILE ||
+  path.join(__dirname, "..", "pending_posts.json");
+
+export const APPROVAL_MEDIA_DIR: string = path.join(
+  __dirname,
+  "..",
+  "approval_media",
+);
+
+let pendingPosts: PendingPost[] = [];
+try {
+  if (fs.existsSync(PENDING_POSTS_FILE)) {
+    pendingPosts = JSON.parse(fs.readFileSync(PENDING_POSTS_FILE, "utf8"));
+  }
+} catch (error) {
+  logger.error("Error reading pending posts:", error);
+}
+
+function savePendingPosts(): void {
+  fs.writeFileSync(PENDING_POSTS_FILE, JSON.stringify(pendingPosts, null, 2));
+}
+
+// Posts still approving were being published when the bot stopped. They
+// go back to review rather than staying stuck, since whether they were
+// published is unknown.
+const interrupted = pendingPosts.filter((post) => post.status === "approving");
+for (const post of interrupted) {
+  post.status = "pending";
+  delete post.reviewedAt;
+  logger.warn(
+    `Pending post ${post.id} was being published when the bot stopped and awaits review again. Check ${post.account} before approving it, it may have been posted.`,
+  );
+}
+if (interrupted.length > 0) {
+  savePendingPosts();
+}
+
+/**
+ * Copies the image of a pending post next to the queue, since templates
+ * overwrite their output files on the next render. Falls back to the
+ * original file when copying fails.
+ */
+function copyMedia(id: string, imagePath: string): string {
+  const copyPath = path.join(
+    APPROVAL_MEDIA_DIR,
+    `${id}${path.extname(imagePath)}`,
+  );
+  try {
+    fs.mkdirSync(APPROVAL_MEDIA_DIR, { recursive: true });
+    copyImage(imagePath, copyPath);
+    return copyPath;
+  } catch (error) {
+    logger.error(`Error copying ${imagePath} for pending post ${id}:`, error);
+    return imagePath;
+  }
+}
+
+/**
+ * Deletes the image copy of a reviewed or expired post
+ */
+function removeMedia(post: PendingPost): void {
+  if (post.imagePath?.startsWith(APPROVAL_MEDIA_DIR)) {
+    fs.rmSync(post.imagePath, { force: true });
+    fs.rmSync(getAltTextPath(post.imagePath), { force: true });
+  }
+}
+
+/**
+ * Marks pending posts whose review window has passed as expired
+ */
+function expireStale(): void {
+  const now = new Date();
+  let changed = false;
+
+  for (const post of pendingPosts) {
+    if (post.status === "pending" && new Date(post.expiresAt) <= now) {
+      post.status = "expired";
+      removeMedia(post);
+      changed = true;
+      logger.info(`Pending post ${post.id} expired without review`);
+    }
+  }
+
+  if (changed) {
+    savePendingPosts();
+  }
+}
+
+/**
+ * Returns a post that is still awaiting review
+ * @throws Error if the post does not exist or was already reviewed
+ */
+function getPendingPost(id: string): PendingPost {
+  expireStale();
+
+  const post = pendingPosts.find((entry) => entry.id === id);
+  if (!post) {
+    throw new Error(`Pending post ${id} not found`);
+  }
+  if (post.status !== "pending") {
+    throw new Error(`Post ${id} is already ${post.status}`);
+  }
+  return post;
+}
+
+export const approvalQueue = {
+  enqueue: (
+    account: string,
+    text: string,
+    imagePath?: string,
+    orderId?: string,
+    variant: PostVariant = {},
+    channel: PublisherName = "twitter",
+  ): PendingPost => {
+    const createdAt = new Date();
+    const id = crypto.randomUUID();
+    const post: PendingPost = {
+      id,
+      account,
+      channel,
+      text,
+      ...variant,
+      imagePath: imagePath && copyMedia(id, imagePath),
+      orderId,
+      status: "pending",
+      createdAt: createdAt.toISOString(),
+      expiresAt: new Date(
+        createdAt.getTime() + botConfig.approval.expiryHours * 60 * 60 * 1000,
+      ).toISOString(),
+    };
+
+    pendingPosts.push(post);
+    savePendingPosts();
+
+    logger.info(`Queued post ${post.id} for ${account} for approval`);
+    return post;
+  },
+
+  list: (status?: PendingPostStatus): PendingPost[] => {
+    expireStale();
+    const posts = status
+      ? pendingPosts.filter((post) => post.status === status)
+      : pendingPosts;
+    return [...posts].reverse();
+  },
+
+  get: (id: string): PendingPost | undefined => {
+    expireStale();
+    return pendingPosts.find((post) => post.id === id);
+  },
+
+  updateText: (id: string, text: string): PendingPost => {
+    const post = getPendingPost(id);
+    post.text = text;
+    savePendingPosts();
+    return post;
+  },
+
+  /**
+   * Publishes a pending post. The post leaves the pending state before
+   * publishing starts, so a second approval of the same post is rejected
+   * instead of publishing it twice.
+   */
+  approve: async (id: string): Promise<PendingPost> => {
+    const post = getPendingPost(id);
+    post.status = "approving";
+    post.reviewedAt = new Date().toISOString();
+    savePendingPosts();
+
+    try {
+      if (post.channel && post.channel !== "twitter") {
+        // Only order posts go through the approval queue
+        const [published] = await publishToChannel(
+          post.channel,
+          "order",
+          [
+            {
+              text: post.text,
+              imagePaths: post.imagePath ? [post.imagePath] : [],
+            },
+          ],
+          { template: post.template, copy: post.copy, payload: post.payload },
+        );
+        logger.info(
+          `Approved post ${id} published to ${post.channel}${
+            published?.id ? ` as message ${published.id}` : ""
+          }`,
+        );
+      } else {
+        const tweet = await twitterService.postTweet(
+          post.text,
+          post.imagePath,
+          {
+            account: post.account,
+            template: post.template,
+            copy: post.copy,
+            payload: post.payload,
+          },
+        );
+        if (tweet.retryId) {
+          post.retryId = tweet.retryId;
+          logger.info(`Approved post ${id} queued for retry`);
+        } else {
+          post.tweetId = tweet.id;
+          logger.info(`Approved post ${id} published as tweet ${tweet.id}`);
+        }
+      }
+      post.status = "approved";
+    } catch (error: any) {
+      post.status = "failed";
+      post.error = error.message;
+      logger.error(`Error publishing approved post ${id}:`, error);
+    }
+
+    // Queued retries keep copies of their own
+    removeMedia(post);
+    savePendingPosts();
+    return post;
+  },
+
+  reject: (id: string): PendingPost => {
+    const post = getPendingPost(id);
+    post.status = "rejected";
+    post.reviewedAt = new Date().toISOString();
+    removeMedia(post);
+    savePendingPosts();
+
+    logger.info(`Rejected post ${id}`);
+    return post;
+  },
+};
@@ -0,0 +1,189 @@
+import fs from "fs";
+import path from "path";
+import { TweetPublicMetricsV2 } from "twitter-api-v2";
+import { twitterService } from "./twitter";
+import { postHistory } from "./postHistory";
+import { botConfig } from "../config/bot";
+import { logger } from "../utils/logger";
+import { EngagementSample, TrackedTweet, VariantPerformance } from "../types";
+
+export const ENGAGEMENT_FILE: string = path.join(
+  __dirname,
+  "..",
+  "engagement.json",
+);
+
+let trackedTweets: TrackedTweet[] = [];
+try {
+  if (fs.existsSync(ENGAGEMENT_FILE)) {
+    trackedTweets = JSON.parse(fs.readFileSync(ENGAGEMENT_FILE, "utf8"));
+  }
+} catch (error) {
+  logger.error("Error reading engagement data:", error);
+}
+
+function saveTrackedTweets(): void {
+  fs.writeFileSync(ENGAGEMENT_FILE, JSON.stringify(trackedTweets, null, 2));
+}
+
+const toSample = (
+  metrics: TweetPublicMetricsV2,
+  fetchedAt: string,
+): EngagementSample => ({
+  fetchedAt,
+  impressions: metrics.impression_count || 0,
+  likes: metrics.like_count,
+  retweets: metrics.retweet_count,
+  replies: metrics.reply_count,
+  quotes: metrics.quote_count,
+  bookmarks: metrics.bookmark_count || 0,
+});
+
+export const getEngagements = (sample: EngagementSample): number =>
+  sample.likes +
+  sample.retweets +
+  sample.replies +
+  sample.quotes +
+  sample.bookmarks;
+
+/**
+ * Starts tracking tweets from the post history that are not tracked yet.
+ * Only the first tweet of a thread is tracked so threads count once.
+ */
+async function syncPostHistory(since: Date): Promise<void> {
+  const tracked = new Set(trackedTweets.map((tweet) => tweet.id));
+
+  for (const entry of await postHistory.getPostedSince(since)) {
+    if (!entry.tweetId || tracked.has(entry.tweetId)) {
+      continue;
+    }
+
+    trackedTweets.push({
+      id: entry.tweetId,
+      account: entry.account,
+      message: entry.text,
+      postedAt: entry.createdAt,
+      template: entry.template,
+      copy: entry.copy,
+      samples: [],
+    });
+  }
+}
+
+/**
+ * Fetches the current public metrics of recently posted tweets and adds
+ * them to each tweet's time series. Tweets posted before the tracking
+ * window are dropped. Accounts are fetched independently; the job fails
+ * after all accounts were processed if any of them failed.
+ */
+export async function trackEngagement(): Promise<void> {
+  const since =
+    Date.now() - botConfig.engagement.trackingDays * 24 * 60 * 60 * 1000;
+  trackedTweets = trackedTweets.filter(
+    (tweet) => new Date(tweet.postedAt).getTime() >= since,
+  );
+  await syncPostHistory(new Date(since));
+
+  const byAccount = new Map<string, TrackedTweet[]>();
+  for (const tweet of trackedTweets) {
+    byAccount.set(tweet.account, [
+      ...(byAccount.get(tweet.account) || []),
+      tweet,
+    ]);
+  }
+
+  const failedAccounts: string[] = [];
+  const fetchedAt = new Date().toISOString();
+
+  for (const [account, tweets] of byAccount) {
+    try {
+      const metrics = await twitterService.getPublicMetrics(
+        account,
+        tweets.map((tweet) => tweet.id),
+      );
+
+      for (const tweet of tweets) {
+        if (metrics[tweet.id]) {
+          tweet.samples.push(toSample(metrics[tweet.id], fetchedAt));
+        }
+      }
+      logger.info(
+        `Fetched engagement for ${Object.keys(metrics).length} tweets of ${account}`,
+      );
+    } catch (error) {
+      logger.error(`Error fetching engagement for ${account}:`, error);
+      failedAccounts.push(account);
+    }
+  }
+
+  saveTrackedTweets();
+
+  if (failedAccounts.length > 0) {
+    throw new Error(
+      `Fetching engagement failed for ${failedAccounts.join(", ")}`,
+    );
+  }
+}
+
+/**
+ * Returns tracked tweets, newest first
+ */
+export function getTrackedTweets(): TrackedTweet[] {
+  return [...trackedTweets].reverse();
+}
+
+export function getTrackedTweet(id: string): TrackedTweet | undefined {
+  return trackedTweets.find((tweet) => tweet.id === id);
+}
+
+/**
+ * Compares templates and copy variants by the latest metrics of the
+ * tweets posted with them within the tracking window. Variants are sorted by engagement rate, the
+ * share of impressions that led to a like, retweet, reply, quote or
+ * bookmark.
+ */
+export function getVariantPerformance(): VariantPerformance[] {
+  const groups = new Map<
+    string,
+    Pick<VariantPerformance, "dimension" | "variant"> & {
+      samples: EngagementSample[];
+    }
+  >();
+
+  for (const tweet of trackedTweets) {
+    const latest = tweet.samples[tweet.samples.length - 1];
+    if (!latest) continue;
+
+    for (const dimension of ["template", "copy"] as const) {
+      const variant = tweet[dimension];
+      if (!variant) continue;
+
+      const key = `${dimension}:${variant}`;
+      const group = groups.get(key) || { dimension, variant, samples: [] };
+      group.samples.push(latest);
+      groups.set(key, group);
+    }
+  }
+
+  return [...groups.values()]
+    .map(({ dimension, variant, samples }) => {
+      const impressions = samples.reduce(
+        (sum, sample) => sum + sample.impressions,
+        0,
+      );
+      const engagements = samples.reduce(
+        (sum, sample) => sum + getEngagements(sample),
+        0,
+      );
+
+      return {
+        dimension,
+        variant,
+        posts: samples.length,
+        avgImpressions: impressions / samples.length,
+        avgEngagements: engagements / samples.length,
+        engagementRate: impressions > 0 ? engagements / impressions : 0,
+      };
+    })
+    .sort((a, b) => b.engagementRate - a.engagementRate);
+}
@@ -0,0 +1,180 @@
+import fs from "fs";
+import path from "path";
+import { getFailureCounts } from "../database";
+import { publishToChannel } from "./publishers";
+import { alertConfig } from "../config/alerts";
+import { formatPercentage } from "../utils/formatters";
+import { logger } from "../utils/logger";
+import {
+  FailureAlert,
+  FailureCounts,
+  FailureKind,
+  FailureSpike,
+  TimeseriesGroupBy,
+} from "../types";
+
+export const FAILURE_ALERTS_FILE: string = path.join(
+  __dirname,
+  "..",
+  "failure_alerts.json",
+);
+
+// Alerts kept for the status page and the cooldown
+const MAX_STORED_ALERTS = 100;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const SCOPES: { groupBy?: TimeseriesGroupBy; label: string }[] = [
+  { label: "all" },
+  { groupBy: "chain", label: "chain" },
+  { groupBy: "pair", label: "route" },
+];
+
+const RATES: Record<FailureKind, (counts: FailureCounts) => number> = {
+  refund: (counts) => counts.refundRate,
+  expiry: (counts) => counts.expiryRate,
+};
+
+let alerts: FailureAlert[] = [];
+try {
+  if (fs.existsSync(FAILURE_ALERTS_FILE)) {
+    alerts = JSON.parse(fs.readFileSync(FAILURE_ALERTS_FILE, "utf8"));
+  }
+} catch (error) {
+  logger.error("Error reading failure alerts:", error);
+}
+
+function saveAlerts(): void {
+  alerts = alerts.slice(-MAX_STORED_ALERTS);
+  fs.writeFileSync(FAILURE_ALERTS_FILE, JSON.stringify(alerts, null, 2));
+}
+
+/**
+ * Returns the most recent failure alerts, newest first
+ */
+export const getRecentAlerts = (limit = 10): FailureAlert[] =>
+  alerts.slice(-limit).reverse();
+
+/**
+ * Compares the refund and expiry rates of the last window against the
+ * baseline before it, in total, per source chain and per route. The
+ * window ends before orders whose refund timelock may not have passed.
+ * Chains and routes without enough baseline orders are compared against
+ * the overall baseline.
+ * @returns Rates that spiked, in total first
+ */
+export async function detectFailureSpikes(
+  now: Date = new Date(),
+): Promise<FailureSpike[]> {
+  const windowEnd = new Date(now.getTime() - alertConfig.delayHours * HOUR_MS);
+  const windowStart = new Date(
+    windowEnd.getTime() - alertConfig.windowHours * HOUR_MS,
+  );
+  const baselineStart = new Date(
+    windowStart.getTime() - alertConfig.baselineDays * 24 * HOUR_MS,
+  );
+
+  const spikes: FailureSpike[] = [];
+  let overallBaseline: FailureCounts | undefined;
+
+  for (const { groupBy, label } of SCOPES) {
+    const current = await getFailureCounts(windowStart, windowEnd, groupBy);
+    const baseline = await getFailureCounts(
+      baselineStart,
+      windowStart,
+      groupBy,
+    );
+    if (!groupBy) {
+      overallBaseline = baseline[0];
+    }
+
+    for (const counts of current) {
+      if (counts.orders < alertConfig.minOrders) continue;
+
+      let base = baseline.find((entry) => entry.group === counts.group);
+      if (!base || base.orders < alertConfig.minOrders) {
+        base = overallBaseline;
+      }
+
+      for (const kind of Object.keys(RATES) as FailureKind[]) {
+        const rate = RATES[kind](counts);
+        const baselineRate = base ? RATES[kind](base) : 0;
+        if (
+          rate - baselineRate >= alertConfig.minIncrease &&
+          rate >= baselineRate * alertConfig.spikeFactor
+        ) {
+          spikes.push({
+            scope: counts.group ? `${label} ${counts.group}` : label,
+            kind,
+            rate,
+            baselineRate,
+            orders: counts.orders,
+          });
+        }
+      }
+    }
+  }
+
+  return spikes;
+}
+
+const formatSpike = (spike: FailureSpike): string =>
+  `• ${spike.scope}: ${spike.kind} rate ${formatPercentage(
+    spike.rate,
+  )} vs ${formatPercentage(spike.baselineRate)} baseline (${spike.orders} orders)`;
+
+/**
+ * Checks for refund and expiry spikes and alerts the team about the ones
+ * not alerted within the cooldown. Alerts are logged and sent to the
+ * alert channels only; they are never tweeted.
+ * @throws Error if no alert channel could be reached; the spikes are
+ * alerted again on the next check
+ */
+export async function checkFailureSpikes(): Promise<void> {
+  const now = new Date();
+  const cooldownStart = now.getTime() - alertConfig.cooldownHours * HOUR_MS;
+
+  const spikes = (await detectFailureSpikes(now)).filter(
+    (spike) =>
+      !alerts.some(
+        (alert) =>
+          alert.scope === spike.scope &&
+          alert.kind === spike.kind &&
+          new Date(alert.alertedAt).getTime() >= cooldownStart,
+      ),
+  );
+
+  if (spikes.length === 0) {
+    logger.info("No new refund or expiry spikes");
+    return;
+  }
+
+  const text = [
+    `⚠️ Refund/expiry spike in the last ${alertConfig.windowHours}h`,
+    ...spikes.map(formatSpike),
+  ].join("\n");
+  logger.warn(text);
+
+  // Without alert channels the log is the only destination
+  let sent = alertConfig.channels.length === 0;
+  for (const channel of alertConfig.channels) {
+    try {
+      await publishToChannel(channel, "failureAlert", [{ text }]);
+      sent = true;
+    } catch (error) {
+      logger.error(`Error sending failure alert to ${channel}:`, error);
+    }
+  }
+
+  // The cooldown only starts once the team was told
+  if (!sent) {
+    throw new Error(
+      "Failure alert could not be sent to any channel, retrying on the next check",
+    );
+  }
+
+  alerts.push(
+    ...spikes.map((spike) => ({ ...spike, alertedAt: now.toISOString() })),
+  );
+  saveAlerts();
+}
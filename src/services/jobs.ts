@@ -0,0 +1,37 @@
+import { scheduler } from "./scheduler";
+import { orderWatcher } from "./orderWatcher";
+import { postDailySummary, postDetailedReport, postRecap } from "./reports";
+import { updateRollups } from "./metrics";
+import { checkMilestones } from "./milestones";
+import { twitterService } from "./twitter";
+import { processChannelRetries } from "./publishers";
+import { trackEngagement } from "./engagement";
+import { answerMentions } from "./mentions";
+import { checkFailureSpikes } from "./failureAnalysis";
+import { schedulerConfig } from "../config/scheduler";
+
+/**
+ * Registers every bot job with the scheduler using the configured schedules
+ */
+export function registerJobs(): void {
+  const { jobs } = schedulerConfig;
+
+  scheduler.register("dailySummary", jobs.dailySummary, postDailySummary);
+  scheduler.register("orderWatcher", jobs.orderWatcher, orderWatcher.poll);
+  scheduler.register("weeklyRecap", jobs.weeklyRecap, () =>
+    postRecap("weekly"),
+  );
+  scheduler.register("monthlyRecap", jobs.monthlyRecap, () =>
+    postRecap("monthly"),
+  );
+  scheduler.register("milestones", jobs.milestones, checkMilestones);
+  scheduler.register("retryQueue", jobs.retryQueue, async () => {
+    await twitterService.processRetryQueue();
+    await processChannelRetries();
+  });
+  scheduler.register("engagement", jobs.engagement, trackEngagement);
+  scheduler.register("mentions", jobs.mentions, answerMentions);
+  scheduler.register("detailedReport", jobs.detailedReport, postDetailedReport);
+  scheduler.register("rollups", jobs.rollups, updateRollups);
+  scheduler.register("failureAlerts", jobs.failureAlerts, checkFailureSpikes);
+}
@@ -0,0 +1,271 @@
+import fs from "fs";
+import path from "path";
+import { TweetV2 } from "twitter-api-v2";
+import { db } from "../database/connection";
+import { queries } from "../database/queries";
+import { getSwapMetrics } from "../database";
+import { generateSummaryMetrics } from "./metrics";
+import { getAssetInfo } from "./api";
+import { calculateFeesAndTimeSaved } from "./timeAndFeeComparison";
+import { calculateOrderVolume } from "./orderWatcher";
+import { twitterService } from "./twitter";
+import { generateMetricsImage } from "../utils/image_generator";
+import { botConfig } from "../config/bot";
+import { twitterConfig } from "../config/twitter";
+import {
+  formatCompactMetricsTweet,
+  formatOrderReply,
+  formatPeriodStatsReply,
+  formatVolumeReply,
+} from "../utils/formatters";
+import { logger } from "../utils/logger";
+import {
+  MentionCommand,
+  MentionState,
+  PostVariant,
+  SwapMetrics,
+} from "../types";
+
+export const MENTION_STATE_FILE: string = path.join(
+  __dirname,
+  "..",
+  "mentions_state.json",
+);
+
+let state: MentionState = { sinceIds: {}, lastReplies: {} };
+try {
+  if (fs.existsSync(MENTION_STATE_FILE)) {
+    state = JSON.parse(fs.readFileSync(MENTION_STATE_FILE, "utf8"));
+  }
+} catch (error) {
+  logger.error("Error reading mention state:", error);
+}
+
+function saveState(): void {
+  fs.writeFileSync(MENTION_STATE_FILE, JSON.stringify(state, null, 2));
+}
+
+const cooldownMs = () => botConfig.mentions.cooldownMinutes * 60 * 1000;
+
+// Tweet ids are snowflakes, so an id derived from a time excludes every
+// tweet posted before it
+const TWITTER_EPOCH = BigInt(1288834974657);
+const snowflakeAt = (date: Date): string =>
+  ((BigInt(date.getTime()) - TWITTER_EPOCH) << BigInt(22)).toString();
+
+/**
+ * Parses a mention such as "@bot volume", "@bot stats 7d" or
+ * "@bot order <create_order_id>". Leading @handles are ignored.
+ * @returns The command, or null when the text is not a known command
+ */
+export function parseMentionCommand(text: string): MentionCommand | null {
+  const words = text
+    .trim()
+    .split(/\s+/)
+    .filter((word) => !word.startsWith("@"));
+  const [command, argument] = [words[0]?.toLowerCase(), words[1]];
+
+  switch (command) {
+    case "volume":
+      return { kind: "volume" };
+
+    case "stats": {
+      if (!argument || argument.toLowerCase() === "24h") {
+        return { kind: "stats", days: 1 };
+      }
+      const match = argument.toLowerCase().match(/^(\d+)d$/);
+      const days = match ? parseInt(match[1]) : NaN;
+      return days >= 1 && days <= botConfig.mentions.maxStatsDays
+        ? { kind: "stats", days }
+        : null;
+    }
+
+    case "order":
+      return argument && /^(0x)?[0-9a-f]{1,128}$/i.test(argument)
+        ? { kind: "order", orderId: argument }
+        : null;
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Renders the reply to a command. Summary metrics are passed lazily so
+ * a poll with several mentions queries them only once.
+ */
+async function buildReply(
+  command: MentionCommand,
+  getSummary: () => Promise<SwapMetrics>,
+): Promise<{ text: string; imagePath?: string } & PostVariant> {
+  switch (command.kind) {
+    case "volume": {
+      const metrics = await getSummary();
+      return {
+        text: formatVolumeReply(metrics),
+        imagePath: await generateMetricsImage(metrics, null, "minimal"),
+        template: "minimal",
+        payload: { metrics },
+      };
+    }
+
+    case "stats": {
+      const metrics = await getSummary();
+      const imagePath = await generateMetricsImage(metrics, null, "minimal");
+      if (command.days === 1) {
+        return {
+          text: formatCompactMetricsTweet(metrics),
+          imagePath,
+          template: "minimal",
+          payload: { metrics },
+        };
+      }
+
+      const to = new Date();
+      const from = new Date(to.getTime() - command.days * 24 * 60 * 60 * 1000);
+      const period = await getSwapMetrics({ from, to });
+      return {
+        text: formatPeriodStatsReply(period, command.days),
+        imagePath,
+        template: "minimal",
+        payload: { metrics: period },
+      };
+    }
+
+    case "order": {
+      const result = await db.query(queries.orderByIdQuery, [command.orderId]);
+      if (result.rows.length === 0) {
+        return {
+          text: `Couldn't find a completed order with id ${command.orderId}`,
+          payload: { orderId: command.orderId },
+        };
+      }
+
+      const networkInfo = await getAssetInfo(botConfig.assetsApiUrl);
+      const { sourceAmount, destinationAmount, ...order } =
+        calculateOrderVolume(result.rows[0], networkInfo);
+
+      try {
+        Object.assign(
+          order,
+          await calculateFeesAndTimeSaved(
+            sourceAmount,
+            destinationAmount,
+            order.source_chain,
+            order.source_asset,
+            order.destination_chain,
+            order.destination_asset,
+          ),
+        );
+      } catch (error) {
+        // Savings are optional in the reply, the order itself is not
+        logger.warn(`Could not compare order ${order.create_order_id}:`, error);
+      }
+
+      return {
+        text: formatOrderReply(order),
+        imagePath: await generateMetricsImage(null, order, "order"),
+        template: "order",
+        payload: { orderId: order.create_order_id },
+      };
+    }
+  }
+}
+
+/**
+ * Replies to a single mention unless it holds no command or its author
+ * is still in cooldown
+ */
+async function answerMention(
+  account: string,
+  mention: TweetV2,
+  username: string,
+  getSummary: () => Promise<SwapMetrics>,
+): Promise<void> {
+  const command = parseMentionCommand(mention.text);
+  if (!command) {
+    return;
+  }
+
+  const cooldownKey = `${account}:${mention.author_id}`;
+  const lastReply = state.lastReplies[cooldownKey];
+  if (lastReply && Date.now() - new Date(lastReply).getTime() < cooldownMs()) {
+    logger.info(`Skipping ${command.kind} mention from @${username}: cooldown`);
+    return;
+  }
+
+  logger.info(
+    `Answering ${command.kind} mention ${mention.id} from @${username}`,
+  );
+  const { text, imagePath, ...variant } = await buildReply(command, getSummary);
+  await twitterService.postTweet(text, imagePath, {
+    ...variant,
+    account,
+    replyTo: mention.id,
+    // A late answer is worse than none
+    queueOnFailure: false,
+    copy: `mention-${command.kind}`,
+  });
+
+  state.lastReplies[cooldownKey] = new Date().toISOString();
+}
+
+/**
+ * Removes cooldown entries that no longer block a reply
+ */
+function pruneCooldowns(): void {
+  const now = Date.now();
+  for (const [key, repliedAt] of Object.entries(state.lastReplies)) {
+    if (now - new Date(repliedAt).getTime() >= cooldownMs()) {
+      delete state.lastReplies[key];
+    }
+  }
+}
+
+/**
+ * Polls the mentions of every account mention replies are routed to and
+ * answers new commands. The since_id advances past every handled
+ * mention, whether or not the reply succeeded, so no mention is answered
+ * twice. Mentions posted before the first poll of an account are skipped.
+ */
+export async function answerMentions(): Promise<void> {
+  let summary: Promise<SwapMetrics> | null = null;
+  const getSummary = () => (summary ||= generateSummaryMetrics());
+  const failedAccounts: string[] = [];
+
+  for (const account of twitterConfig.routing.mentionReply) {
+    if (!state.sinceIds[account]) {
+      state.sinceIds[account] = snowflakeAt(new Date());
+      saveState();
+      logger.info(`Initialised mention polling for ${account}`);
+      continue;
+    }
+
+    try {
+      const { mentions, users } = await twitterService.getMentions(
+        account,
+        state.sinceIds[account],
+      );
+
+      for (const mention of mentions) {
+        const username = users[mention.author_id || ""]?.username || "unknown";
+        try {
+          await answerMention(account, mention, username, getSummary);
+        } catch (error) {
+          logger.error(`Error answering mention ${mention.id}:`, error);
+        }
+
+        state.sinceIds[account] = mention.id;
+        pruneCooldowns();
+        saveState();
+      }
+    } catch (error) {
+      logger.error(`Error polling mentions for ${account}:`, error);
+      failedAccounts.push(account);
+    }
+  }
+
+  if (failedAccounts.length > 0) {
+    throw new Error(`Polling mentions failed for ${failedAccounts.join(", ")}`);
+  }
+}
@@ -1,6 +1,14 @@
-import { getSwapMetrics as getSummaryMetrics } from "../database/index";
+import {
+  getSwapMetrics as getSummaryMetrics,
+  syncAssetDecimals,
+} from "../database/index";
+import { rollups } from "../database/rollups";
+import { getAssetInfo } from "./api";
+import { botConfig } from "../config/bot";
 import { logger } from "../utils/logger";
-import { SwapMetrics } from "../types";
+import { MetricsPeriod, RecapKind, RecapMetrics, SwapMetrics } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export async function generateSummaryMetrics(): Promise<SwapMetrics> {
   try {
@@ -15,3 +23,118 @@ export async function generateSummaryMetrics(): Promise<SwapMetrics> {
     throw error;
   }
 }
+
+/**
+ * Returns the last complete recap period before `now` and the period
+ * preceding it. Weekly recaps cover the seven days up to the start of
+ * today (UTC); monthly recaps cover the previous calendar month.
+ */
+export function getRecapPeriods(
+  kind: RecapKind,
+  now: Date = new Date(),
+): { current: MetricsPeriod; previous: MetricsPeriod } {
+  if (kind === "weekly") {
+    const to = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+    );
+    const from = new Date(to.getTime() - 7 * DAY_MS);
+    return {
+      current: { from, to },
+      previous: { from: new Date(from.getTime() - 7 * DAY_MS), to: from },
+    };
+  }
+
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  return {
+    current: {
+      from: new Date(Date.UTC(year, month - 1, 1)),
+      to: new Date(Date.UTC(year, month, 1)),
+    },
+    previous: {
+      from: new Date(Date.UTC(year, month - 2, 1)),
+      to: new Date(Date.UTC(year, month - 1, 1)),
+    },
+  };
+}
+
+/**
+ * Relative change between two values, or null when there is no baseline
+ */
+export function percentChange(
+  current: number,
+  previous: number,
+): number | null {
+  if (previous === 0) {
+    return current === 0 ? 0 : null;
+  }
+  return (current - previous) / previous;
+}
+
+export async function generateRecapMetrics(
+  kind: RecapKind,
+  now: Date = new Date(),
+): Promise<RecapMetrics> {
+  try {
+    logger.info(`Generating ${kind} recap metrics`);
+    const periods = getRecapPeriods(kind, now);
+    const current = await getSummaryMetrics(periods.current);
+    const previous = await getSummaryMetrics(periods.previous);
+
+    return {
+      kind,
+      current,
+      previous,
+      change: {
+        orders: percentChange(current.orders, previous.orders),
+        volume: percentChange(current.volume, previous.volume),
+        completionRate: current.completionRate - previous.completionRate,
+      },
+    };
+  } catch (error) {
+    logger.error(`Error generating ${kind} recap metrics:`, error);
+    throw error;
+  }
+}
+
+const startOfDay = (date: Date): Date =>
+  new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+
+/**
+ * Rebuilds the daily rollups from the given day on, or of all history
+ * when no day is given
+ * @throws Error when given a day before all history was rolled up, since
+ * the rollups would miss the days before it
+ */
+export async function backfillRollups(from: Date | null = null): Promise<void> {
+  if (from && !(await rollups.getWatermark())) {
+    throw new Error(
+      "Daily rollups don't cover all history yet. Run the backfill without a start day first.",
+    );
+  }
+
+  const watermark = new Date();
+  await syncAssetDecimals(await getAssetInfo(botConfig.assetsApiUrl));
+  await rollups.rebuild(from && startOfDay(from), watermark);
+}
+
+/**
+ * Brings the daily rollups up to date. Days matched since the watermark,
+ * and within the settlement window before it, are rebuilt; everything is
+ * rebuilt when the rollups don't exist yet.
+ */
+export async function updateRollups(): Promise<void> {
+  const watermark = await rollups.getWatermark();
+  if (!watermark) {
+    logger.info("No daily rollups yet, backfilling all history");
+    return backfillRollups();
+  }
+
+  await backfillRollups(
+    new Date(
+      watermark.getTime() - botConfig.rollups.settlementHours * 60 * 60 * 1000,
+    ),
+  );
+}
@@ -0,0 +1,125 @@
+import fs from "fs";
+import path from "path";
+import { generateSummaryMetrics } from "./metrics";
+import { describePublished, publishPost } from "./publishers";
+import { inputTemplates } from "../templates";
+import { botConfig } from "../config/bot";
+import { twitterConfig } from "../config/twitter";
+import { formatMilestoneToTweet } from "../utils/formatters";
+import { logger } from "../utils/logger";
+import {
+  AnnouncedMilestone,
+  Milestone,
+  MilestoneMetric,
+  SwapMetrics,
+} from "../types";
+
+export const MILESTONES_FILE: string = path.join(
+  __dirname,
+  "..",
+  "milestones.json",
+);
+
+let announced: AnnouncedMilestone[] = [];
+try {
+  if (fs.existsSync(MILESTONES_FILE)) {
+    announced = JSON.parse(fs.readFileSync(MILESTONES_FILE, "utf8"));
+  }
+} catch (error) {
+  logger.error("Error reading announced milestones:", error);
+}
+
+function saveAnnounced(): void {
+  fs.writeFileSync(MILESTONES_FILE, JSON.stringify(announced, null, 2));
+}
+
+const isAnnounced = (metric: MilestoneMetric, value: number): boolean =>
+  announced.some((entry) => entry.metric === metric && entry.value === value);
+
+/**
+ * Returns the configured milestones that the metrics have crossed but
+ * that were not announced yet, grouped by metric
+ */
+export function findNewMilestones(
+  metrics: SwapMetrics,
+): Record<MilestoneMetric, Milestone[]> {
+  const current: Record<MilestoneMetric, number> = {
+    volume: metrics.allTimeVolume,
+    orders: metrics.allOrders,
+  };
+
+  const result: Record<MilestoneMetric, Milestone[]> = {
+    volume: [],
+    orders: [],
+  };
+
+  for (const metric of Object.keys(result) as MilestoneMetric[]) {
+    result[metric] = botConfig.milestones[metric]
+      .filter(
+        (value) => current[metric] >= value && !isAnnounced(metric, value),
+      )
+      .map((value) => ({ metric, value, current: current[metric] }));
+  }
+
+  return result;
+}
+
+/**
+ * Checks cumulative metrics against the configured milestones and posts a
+ * celebration for each metric that crossed a new one. When several
+ * milestones were crossed at once (e.g. on first run) only the highest is
+ * announced and the lower ones are recorded as covered by it. Posts
+ * queued for retry count as announced, since the retry queue publishes
+ * them; dry runs are not recorded, so they don't suppress the real
+ * announcement.
+ */
+export async function checkMilestones(): Promise<void> {
+  const metrics = await generateSummaryMetrics();
+  const newMilestones = findNewMilestones(metrics);
+
+  for (const milestones of Object.values(newMilestones)) {
+    if (milestones.length === 0) continue;
+
+    const highest = milestones[milestones.length - 1];
+    logger.info(
+      `Milestone reached: ${highest.metric} ${highest.value} (current ${highest.current})`,
+    );
+
+    const imagePath = await inputTemplates.milestone.generate(highest);
+    const results = await publishPost(
+      "milestone",
+      formatMilestoneToTweet(highest),
+      imagePath,
+      {
+        template: "milestone",
+        copy: highest.metric,
+        payload: { metrics: highest },
+      },
+    );
+    const tweet = results.find((post) => post.channel === "twitter");
+
+    if (twitterConfig.publishMode === "dry-run") {
+      logger.info(
+        `Dry run: milestone ${highest.metric} ${highest.value} not recorded as announced`,
+      );
+      continue;
+    }
+
+    const announcedAt = new Date().toISOString();
+    for (const milestone of milestones) {
+      announced.push({
+        metric: milestone.metric,
+        value: milestone.value,
+        announcedAt,
+        tweetId: milestone === highest ? tweet?.id : undefined,
+      });
+    }
+    saveAnnounced();
+
+    logger.info(`Milestone published: ${describePublished(results)}`);
+  }
+}
+
+export function getAnnouncedMilestones(): AnnouncedMilestone[] {
+  return announced;
+}
@@ -0,0 +1,174 @@
+import BigNumber from "bignumber.js";
+import { AssetConfig } from "./api";
+import { logger } from "../utils/logger";
+
+// Assets whose decimals are known on every chain, whether or not the
+// asset registry lists them
+export const FIXED_DECIMALS: Record<string, number> = {
+  "0x2448040b22b27f5a814756e67da005701e525658b162d4f0343d2e011bc6dad": 18,
+};
+
+/**
+ * Returns the number of decimal places for a given asset
+ * @param asset The asset to get decimals for
+ * @param networkInfo The network information from Hashira API
+ * @returns The number of decimal places for the asset
+ * @throws Error if the asset is not found in the network info
+ */
+export function getDecimals(
+  asset: { chain: string; asset: string },
+  networkInfo: Record<string, any> = {},
+): number {
+  if (FIXED_DECIMALS[asset.asset] !== undefined) {
+    return FIXED_DECIMALS[asset.asset];
+  }
+
+  if (!networkInfo[asset.chain]) {
+    throw new Error(`Chain ${asset.chain} not found in network info`);
+  }
+
+  const assetConfig = networkInfo[asset.chain].assetConfig.find(
+    (config: AssetConfig) =>
+      config.symbol.toLowerCase() === asset.asset.toLowerCase() ||
+      config.tokenAddress.toLowerCase() === asset.asset.toLowerCase() ||
+      config.atomicSwapAddress.toLowerCase() === asset.asset.toLowerCase(),
+  );
+
+  if (!assetConfig) {
+    throw new Error(`Asset ${asset.asset} not found for chain ${asset.chain}`);
+  }
+
+  return assetConfig.decimals;
+}
+
+// Swap amounts and token prices of an order, as selected by the order
+// and volume queries. Amounts are in the asset's smallest unit.
+export interface OrderAmounts {
+  create_order_id: string;
+  source_chain: string;
+  source_asset: string;
+  destination_chain: string;
+  destination_asset: string;
+  source_swap_amount: string | number | null;
+  destination_swap_amount: string | number | null;
+  input_token_price: number | null;
+  output_token_price: number | null;
+}
+
+// Value of one side of a swap. Amount and USD value are null when the
+// leg could not be valued, and reason says why.
+export interface LegValuation {
+  amount: BigNumber | null;
+  usd: BigNumber | null;
+  reason?: string;
+}
+
+export interface OrderValuation {
+  orderId: string;
+  source: LegValuation;
+  destination: LegValuation;
+  // USD value of the legs that could be valued
+  totalUsd: BigNumber;
+  // Whether both legs were valued
+  complete: boolean;
+  // Why legs could not be valued, empty when the valuation is complete
+  reasons: string[];
+}
+
+const missing = (reason: string): LegValuation => ({
+  amount: null,
+  usd: null,
+  reason,
+});
+
+function valueLeg(
+  side: "source" | "destination",
+  chain: string,
+  asset: string,
+  amount: string | number | null,
+  price: number | null,
+  networkInfo: Record<string, any>,
+): LegValuation {
+  if (!chain || !asset) {
+    return missing(`${side} chain or asset is missing`);
+  }
+  if (amount === null || amount === "" || new BigNumber(amount).isNaN()) {
+    return missing(`${side} swap amount is missing`);
+  }
+  if (!price) {
+    return missing(`${side} token price is missing`);
+  }
+
+  let decimals: number;
+  try {
+    decimals = getDecimals({ chain, asset }, networkInfo);
+  } catch (error: any) {
+    return missing(`${side} decimals are unknown: ${error.message}`);
+  }
+
+  // Shifting keeps every digit of 18-decimal amounts, which dividing a
+  // float by 10^decimals does not
+  const units = new BigNumber(amount).shiftedBy(-decimals);
+  return { amount: units, usd: units.multipliedBy(price) };
+}
+
+/**
+ * Converts the swap amounts of an order to token units and values both
+ * legs in USD. A leg that cannot be valued is left out of the total and
+ * its reason is reported instead of throwing.
+ */
+export function valueOrder(
+  order: OrderAmounts,
+  networkInfo: Record<string, any>,
+): OrderValuation {
+  const source = valueLeg(
+    "source",
+    order.source_chain,
+    order.source_asset,
+    order.source_swap_amount,
+    order.input_token_price,
+    networkInfo,
+  );
+  const destination = valueLeg(
+    "destination",
+    order.destination_chain,
+    order.destination_asset,
+    order.destination_swap_amount,
+    order.output_token_price,
+    networkInfo,
+  );
+
+  const reasons = [source.reason, destination.reason].filter(
+    (reason): reason is string => Boolean(reason),
+  );
+
+  return {
+    orderId: order.create_order_id,
+    source,
+    destination,
+    totalUsd: (source.usd || new BigNumber(0)).plus(
+      destination.usd || new BigNumber(0),
+    ),
+    complete: reasons.length === 0,
+    reasons,
+  };
+}
+
+/**
+ * Sums the USD value of a set of orders, counting both legs of each.
+ * Legs that cannot be valued are logged and left out.
+ */
+export function sumOrderValues(
+  orders: OrderAmounts[],
+  networkInfo: Record<string, any>,
+): BigNumber {
+  return orders.reduce((total, order) => {
+    const valuation = valueOrder(order, networkInfo);
+    if (!valuation.complete) {
+      logger.warn(
+        `Incomplete valuation of order ${order.create_order_id}: ${valuation.reasons.join(", ")}`,
+      );
+    }
+    return total.plus(valuation.totalUsd);
+  }, new BigNumber(0));
+}
@@ -0,0 +1,275 @@
+import fs from "fs";
+import path from "path";
+import { db } from "../database/connection";
+import { queries } from "../database/queries";
+import { getAssetInfo } from "./api";
+import { valueOrder } from "./orderValuation";
+import { calculateFeesAndTimeSaved } from "./timeAndFeeComparison";
+import { describePublished, publishPost } from "./publishers";
+import { approvalQueue } from "./approvalQueue";
+import { postingRules, getOrderFacts } from "./rules";
+import { generateMetricsImage, TemplateName } from "../utils/image_generator";
+import { botConfig } from "../config/bot";
+import { publisherConfig } from "../config/publishers";
+import { twitterConfig } from "../config/twitter";
+import { formatCurrency, orderCopyVariants } from "../utils/formatters";
+import { logger } from "../utils/logger";
+import { OrderCursor, SuccessfulOrder } from "../types";
+
+export const ORDER_CURSOR_FILE: string = path.join(
+  __dirname,
+  "..",
+  "order_cursor.json",
+);
+
+let cursor: OrderCursor | null = null;
+
+// Failed attempts of the orders that could not be processed yet
+const attempts = new Map<string, number>();
+
+/**
+ * Loads the persisted cursor, creating one at the configured start point
+ * the first time the watcher runs
+ */
+function loadCursor(): OrderCursor {
+  if (cursor) {
+    return cursor;
+  }
+
+  try {
+    if (fs.existsSync(ORDER_CURSOR_FILE)) {
+      const saved = JSON.parse(fs.readFileSync(ORDER_CURSOR_FILE, "utf8"));
+      cursor = {
+        createdAt: saved.createdAt,
+        // Cursors of earlier versions only held the last order processed
+        processed:
+          saved.processed ||
+          (saved.createOrderId
+            ? { [saved.createOrderId]: saved.createdAt }
+            : {}),
+      };
+      logger.info(`Resuming order watcher from ${cursor.createdAt}`);
+      return cursor;
+    }
+  } catch (error) {
+    logger.error("Error reading order cursor:", error);
+  }
+
+  cursor = {
+    createdAt: botConfig.orderWatcher.startFrom || new Date().toISOString(),
+    processed: {},
+  };
+  saveCursor(cursor);
+  logger.info(`Initialised order watcher cursor at ${cursor.createdAt}`);
+  return cursor;
+}
+
+function saveCursor(next: OrderCursor): void {
+  cursor = next;
+  fs.writeFileSync(ORDER_CURSOR_FILE, JSON.stringify(next, null, 2));
+}
+
+/**
+ * Marks an order as handled so later polls skip it
+ */
+function markProcessed(orderId: string, createdAt: string): void {
+  const current = loadCursor();
+  attempts.delete(orderId);
+  saveCursor({
+    ...current,
+    processed: { ...current.processed, [orderId]: createdAt },
+  });
+}
+
+/**
+ * Moves the start of the scan up to the settlement window, but never
+ * past an order that still has to be processed, and forgets the
+ * processed orders before it
+ * @param pendingFrom Match time of the oldest order left to process
+ */
+function advanceCursor(pendingFrom: number): void {
+  const current = loadCursor();
+  const settledBefore =
+    Date.now() - botConfig.orderWatcher.settlementHours * 60 * 60 * 1000;
+  const next = Math.min(settledBefore, pendingFrom);
+  if (next <= new Date(current.createdAt).getTime()) {
+    return;
+  }
+
+  const processed: Record<string, string> = {};
+  for (const [orderId, createdAt] of Object.entries(current.processed)) {
+    if (new Date(createdAt).getTime() >= next) {
+      processed[orderId] = createdAt;
+    }
+  }
+  saveCursor({ createdAt: new Date(next).toISOString(), processed });
+}
+
+/**
+ * Converts the swap amounts of an order to token units and adds its USD
+ * volume
+ * @throws Error listing the reasons when either leg can't be valued
+ */
+export function calculateOrderVolume(
+  order: SuccessfulOrder,
+  networkInfo: Record<string, any>,
+): SuccessfulOrder & { sourceAmount: number; destinationAmount: number } {
+  const valuation = valueOrder(order, networkInfo);
+  if (!valuation.complete) {
+    throw new Error(
+      `Cannot value order ${order.create_order_id}: ${valuation.reasons.join(", ")}`,
+    );
+  }
+
+  return {
+    ...order,
+    sourceAmount: valuation.source.amount!.toNumber(),
+    destinationAmount: valuation.destination.amount!.toNumber(),
+    volume: valuation.totalUsd.toNumber(),
+  };
+}
+
+/**
+ * Calculates the volume of an order and announces it when it matches
+ * one of the posting rules
+ */
+async function processOrder(
+  order: SuccessfulOrder,
+  networkInfo: Record<string, any>,
+): Promise<void> {
+  const { sourceAmount, destinationAmount, ...orderWithVolume } =
+    calculateOrderVolume(order, networkInfo);
+
+  // Fee and time savings need third-party quotes, so only fetch them
+  // when a rule could still match on the facts known so far
+  if (!postingRules.evaluate("order", getOrderFacts(orderWithVolume), true)) {
+    logger.info(
+      `Order ${order.create_order_id} (${formatCurrency(orderWithVolume.volume)}) matches no posting rule. Skipping post.`,
+    );
+    return;
+  }
+
+  const savings = await calculateFeesAndTimeSaved(
+    sourceAmount,
+    destinationAmount,
+    order.source_chain,
+    order.source_asset,
+    order.destination_chain,
+    order.destination_asset,
+  );
+  Object.assign(orderWithVolume, savings);
+
+  const match = postingRules.evaluate("order", getOrderFacts(orderWithVolume));
+  if (!match) {
+    logger.info(
+      `Order ${order.create_order_id} (${formatCurrency(orderWithVolume.volume)}) matches no posting rule. Skipping post.`,
+    );
+    return;
+  }
+
+  logger.info(
+    `Order ${order.create_order_id} (${formatCurrency(orderWithVolume.volume)}) matched rule ${match.rule.name}. Generating image for posting.`,
+  );
+
+  const imagePath = await generateMetricsImage(
+    null,
+    orderWithVolume,
+    match.rule.template as TemplateName,
+  );
+  const tweetText = orderCopyVariants[match.rule.copy](orderWithVolume);
+  const variant = {
+    template: match.rule.template,
+    copy: match.rule.copy,
+    payload: { orderId: order.create_order_id },
+  };
+
+  if (botConfig.approval.required) {
+    // Each Twitter account and each other channel is reviewed separately
+    for (const channel of publisherConfig.routing.order) {
+      const accounts =
+        channel === "twitter" ? twitterConfig.routing.order : [channel];
+      for (const account of accounts) {
+        approvalQueue.enqueue(
+          account,
+          tweetText,
+          imagePath,
+          order.create_order_id,
+          variant,
+          channel,
+        );
+      }
+    }
+    return;
+  }
+
+  const results = await publishPost("order", tweetText, imagePath, variant);
+  logger.info(`Order post published: ${describePublished(results)}`);
+}
+
+export const orderWatcher = {
+  /**
+   * Fetches the successful orders matched since the start of the cursor
+   * that were not processed yet and processes them oldest first. Orders
+   * that fail are retried on the next polls until they run out of
+   * attempts.
+   */
+  poll: async (): Promise<void> => {
+    try {
+      const { createdAt, processed } = loadCursor();
+      const { batchSize, maxAttempts } = botConfig.orderWatcher;
+      const result = await db.query(queries.ordersAfterCursorQuery, [
+        createdAt,
+        Object.keys(processed),
+        batchSize,
+      ]);
+
+      // Orders beyond a full batch are fetched on the next poll
+      let pendingFrom =
+        result.rows.length === batchSize
+          ? new Date(result.rows[result.rows.length - 1].created_at).getTime()
+          : Infinity;
+
+      if (result.rows.length === 0) {
+        logger.info("No new successful orders found since last check");
+      } else {
+        logger.info(`Found ${result.rows.length} new successful orders`);
+        const networkInfo = await getAssetInfo(botConfig.assetsApiUrl);
+
+        for (const order of result.rows) {
+          const orderCreatedAt = new Date(order.created_at).toISOString();
+
+          try {
+            await processOrder(order, networkInfo);
+            markProcessed(order.create_order_id, orderCreatedAt);
+          } catch (error) {
+            const failures = (attempts.get(order.create_order_id) || 0) + 1;
+            if (failures >= maxAttempts) {
+              logger.error(
+                `Error processing order ${order.create_order_id}, giving up after ${failures} attempts: ${error}`,
+              );
+              markProcessed(order.create_order_id, orderCreatedAt);
+            } else {
+              logger.error(
+                `Error processing order ${order.create_order_id} (attempt ${failures} of ${maxAttempts}): ${error}`,
+              );
+              attempts.set(order.create_order_id, failures);
+              pendingFrom = Math.min(
+                pendingFrom,
+                new Date(orderCreatedAt).getTime(),
+              );
+            }
+          }
+        }
+      }
+
+      advanceCursor(pendingFrom);
+    } catch (error) {
+      logger.error("Error fetching new successful orders:", error);
+      throw error;
+    }
+  },
+
+  getCursor: (): OrderCursor => {
+    return { ...loadCursor() };
+  },
+};
@@ -0,0 +1,120 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { twitterConfig } from "../config/twitter";
+import { copyImage } from "../templates/base";
+import { logger } from "../utils/logger";
+import { OutboxManifest, ThreadSegment, TweetResponse } from "../types";
+
+/**
+ * Creates a new, uniquely named outbox entry directory
+ */
+function createEntry(account: string): {
+  id: string;
+  entryDir: string;
+  createdAt: string;
+} {
+  const createdAt = new Date().toISOString();
+  // Entries written in the same millisecond get different suffixes
+  const suffix = crypto.randomBytes(3).toString("hex");
+  const id = `dry-run-${account}-${createdAt.replace(/[:.]/g, "-")}-${suffix}`;
+  const entryDir = path.join(twitterConfig.outboxDir, id);
+  fs.mkdirSync(entryDir, { recursive: true });
+  return { id, entryDir, createdAt };
+}
+
+/**
+ * Copies an image and its alt text into an outbox entry and returns the
+ * image's file name
+ */
+function copyToEntry(
+  entryDir: string,
+  imagePath: string,
+  name: string,
+): string {
+  const image = `${name}${path.extname(imagePath) || ".png"}`;
+  copyImage(imagePath, path.join(entryDir, image));
+  return image;
+}
+
+function writeManifest(entryDir: string, manifest: OutboxManifest): void {
+  fs.writeFileSync(
+    path.join(entryDir, "manifest.json"),
+    JSON.stringify(manifest, null, 2),
+  );
+}
+
+/**
+ * Writes a post to the local outbox instead of publishing it.
+ * Each entry is a directory holding the tweet text, a copy of the
+ * rendered image and a JSON manifest describing both.
+ * @param account The account the tweet would be posted from
+ * @param message The tweet text
+ * @param imagePath Optional path of the image that would be attached
+ * @returns A tweet response carrying the outbox entry id
+ */
+export function writeToOutbox(
+  account: string,
+  message: string,
+  imagePath?: string,
+): TweetResponse {
+  const { id, entryDir, createdAt } = createEntry(account);
+
+  fs.writeFileSync(path.join(entryDir, "tweet.txt"), message);
+  const image = imagePath
+    ? copyToEntry(entryDir, imagePath, "image")
+    : undefined;
+
+  writeManifest(entryDir, {
+    id,
+    account,
+    text: message,
+    image,
+    sourceImagePath: imagePath,
+    createdAt,
+  });
+
+  logger.info(`Dry run: tweet written to outbox at ${entryDir}`);
+  return { id, text: message };
+}
+
+/**
+ * Writes a thread to the local outbox as a single entry. Each segment
+ * gets a numbered text file and its images; the manifest lists them in
+ * posting order.
+ * @param account The account the thread would be posted from
+ * @param segments The tweets of the thread in order
+ * @returns One tweet response per segment
+ */
+export function writeThreadToOutbox(
+  account: string,
+  segments: ThreadSegment[],
+): TweetResponse[] {
+  const { id, entryDir, createdAt } = createEntry(account);
+
+  const thread = segments.map((segment, index) => {
+    const prefix = String(index + 1).padStart(2, "0");
+    fs.writeFileSync(path.join(entryDir, `${prefix}.txt`), segment.text);
+
+    const images = (segment.imagePaths || []).map((imagePath, imageIndex) =>
+      copyToEntry(entryDir, imagePath, `${prefix}-${imageIndex + 1}`),
+    );
+    return { text: segment.text, images };
+  });
+
+  writeManifest(entryDir, {
+    id,
+    account,
+    text: segments[0]?.text || "",
+    createdAt,
+    thread,
+  });
+
+  logger.info(
+    `Dry run: thread of ${segments.length} tweets written to outbox at ${entryDir}`,
+  );
+  return segments.map((segment, index) => ({
+    id: `${id}-${index + 1}`,
+    text: segment.text,
+  }));
+}
@@ -0,0 +1,176 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { db } from "../database/connection";
+import { queries } from "../database/queries";
+import { ensureBotTables } from "../database/schema";
+import { twitterConfig } from "../config/twitter";
+import { logger } from "../utils/logger";
+import {
+  PostHistoryEntry,
+  PostHistoryFilters,
+  PostHistoryStatus,
+  PostVariant,
+} from "../types";
+
+// Tweet log written by earlier versions, imported once on startup
+export const LEGACY_TWEET_LOG_FILE: string = path.join(
+  __dirname,
+  "..",
+  "tweet_log.json",
+);
+
+export interface PostRecord extends PostVariant {
+  account: string;
+  text: string;
+  status: PostHistoryStatus;
+  tweetId?: string;
+  threadId?: string;
+  imagePaths?: string[];
+  error?: string;
+  createdAt?: string;
+}
+
+/**
+ * Hashes the attached images so reposts of the same image can be found
+ */
+function hashImages(imagePaths: string[]): string | null {
+  const hashes = imagePaths
+    .filter((imagePath) => fs.existsSync(imagePath))
+    .map((imagePath) =>
+      crypto
+        .createHash("sha256")
+        .update(fs.readFileSync(imagePath))
+        .digest("hex"),
+    );
+  return hashes.length > 0 ? hashes.join(",") : null;
+}
+
+async function insert(record: PostRecord): Promise<void> {
+  await ensureBotTables("postHistory");
+  await db.query(queries.insertPostHistoryQuery, [
+    record.tweetId || null,
+    record.threadId || null,
+    record.account,
+    record.text,
+    record.template || null,
+    record.copy || null,
+    record.payload ? JSON.stringify(record.payload) : null,
+    hashImages(record.imagePaths || []),
+    record.status,
+    record.error || null,
+    record.createdAt || null,
+  ]);
+}
+
+const toEntry = (row: any): PostHistoryEntry => ({
+  id: row.id,
+  tweetId: row.tweet_id || undefined,
+  threadId: row.thread_id || undefined,
+  account: row.account,
+  text: row.text,
+  template: row.template || undefined,
+  copy: row.copy || undefined,
+  payload: row.payload || undefined,
+  imageHash: row.image_hash || undefined,
+  status: row.status,
+  error: row.error || undefined,
+  createdAt: new Date(row.created_at).toISOString(),
+});
+
+export const postHistory = {
+  /**
+   * Creates the history table and imports the tweet log of earlier
+   * versions in one transaction, deleting the file once it was imported
+   */
+  init: async (): Promise<void> => {
+    await ensureBotTables("postHistory");
+    if (!fs.existsSync(LEGACY_TWEET_LOG_FILE)) {
+      return;
+    }
+
+    const entries = JSON.parse(fs.readFileSync(LEGACY_TWEET_LOG_FILE, "utf8"));
+    const client = await db.pool.connect();
+
+    try {
+      await client.query("BEGIN");
+      for (const entry of entries) {
+        await client.query(queries.importLegacyPostQuery, [
+          entry.id || null,
+          entry.threadId || null,
+          // Entries logged before multi-account support have no account
+          entry.account || twitterConfig.defaultAccount,
+          entry.message,
+          entry.template || null,
+          entry.copy || null,
+          entry.timestamp || null,
+        ]);
+      }
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      logger.error(`Error importing ${LEGACY_TWEET_LOG_FILE}:`, error);
+      throw error;
+    } finally {
+      client.release();
+    }
+    fs.unlinkSync(LEGACY_TWEET_LOG_FILE);
+
+    logger.info(
+      `Imported ${entries.length} entries of ${LEGACY_TWEET_LOG_FILE} into the post history`,
+    );
+  },
+
+  /**
+   * Records a post. Failures are logged but never thrown, so a database
+   * outage doesn't fail a post that already went out.
+   */
+  record: async (record: PostRecord): Promise<void> => {
+    try {
+      await insert(record);
+    } catch (error) {
+      logger.error(
+        `Error recording ${record.status} post of ${record.account} in the post history:`,
+        error,
+      );
+    }
+  },
+
+  /**
+   * Searches the history, newest first
+   * @param page 1-based page number
+   */
+  search: async (
+    filters: PostHistoryFilters = {},
+    page = 1,
+    pageSize = 25,
+  ): Promise<{ entries: PostHistoryEntry[]; total: number }> => {
+    await ensureBotTables("postHistory");
+    const result = await db.query(queries.searchPostHistoryQuery, [
+      filters.text || null,
+      filters.orderId || null,
+      filters.account || null,
+      filters.template || null,
+      filters.status || null,
+      filters.from || null,
+      filters.to || null,
+      pageSize,
+      (page - 1) * pageSize,
+    ]);
+
+    return {
+      entries: result.rows.map(toEntry),
+      total: result.rows.length > 0 ? parseInt(result.rows[0].total) : 0,
+    };
+  },
+
+  /**
+   * Returns posted tweets since a point in time, oldest first. Threads
+   * are only represented by their first tweet.
+   */
+  getPostedSince: async (since: Date): Promise<PostHistoryEntry[]> => {
+    await ensureBotTables("postHistory");
+    const result = await db.query(queries.postedThreadHeadsQuery, [since]);
+    return result.rows.map(toEntry);
+  },
+};
@@ -0,0 +1,71 @@
+import fs from "fs";
+import path from "path";
+import axios from "axios";
+import { publisherConfig } from "../../config/publishers";
+import { readAltText } from "../../templates/base";
+import { logger } from "../../utils/logger";
+import { Publisher, ThreadSegment } from "../../types";
+
+/**
+ * @throws Error if no webhook is configured
+ */
+function getWebhookUrl(): string {
+  const { baseUrl, webhookId, webhookToken } = publisherConfig.discord;
+  if (!webhookId || !webhookToken) {
+    throw new Error(
+      "DISCORD_WEBHOOK_ID and DISCORD_WEBHOOK_TOKEN must be set to publish to Discord",
+    );
+  }
+  return `${baseUrl}/webhooks/${webhookId}/${webhookToken}`;
+}
+
+/**
+ * Sends one segment as a webhook message with its images attached
+ * @returns The id of the created message
+ */
+async function sendMessage(segment: ThreadSegment): Promise<string> {
+  const imagePaths = segment.imagePaths || [];
+  const form = new FormData();
+
+  form.append(
+    "payload_json",
+    JSON.stringify({
+      content: segment.text,
+      attachments: imagePaths.map((imagePath, index) => ({
+        id: index,
+        description: readAltText(imagePath),
+      })),
+    }),
+  );
+  imagePaths.forEach((imagePath, index) =>
+    form.append(
+      `files[${index}]`,
+      new Blob([fs.readFileSync(imagePath)]),
+      path.basename(imagePath),
+    ),
+  );
+
+  // wait=true makes Discord return the created message
+  const { data } = await axios.post(`${getWebhookUrl()}?wait=true`, form, {
+    timeout: 30000,
+  });
+  return data.id;
+}
+
+/**
+ * Publishes to a Discord channel through a webhook, one message per
+ * segment
+ */
+export const discordPublisher: Publisher = {
+  name: "discord",
+
+  publish: async (route, segments) => {
+    const ids: string[] = [];
+    for (const segment of segments) {
+      ids.push(await sendMessage(segment));
+    }
+
+    logger.info(`Published ${route} post to Discord as message ${ids[0]}`);
+    return [{ channel: "discord", id: ids[0] }];
+  },
+};
@@ -0,0 +1,247 @@
+import { twitterPublisher } from "./twitter";
+import { discordPublisher } from "./discord";
+import { telegramPublisher } from "./telegram";
+import { slackPublisher } from "./slack";
+import { writeThreadToOutbox } from "../outbox";
+import { retryQueue } from "../retryQueue";
+import { postHistory } from "../postHistory";
+import { publisherConfig } from "../../config/publishers";
+import { alertConfig } from "../../config/alerts";
+import { twitterConfig } from "../../config/twitter";
+import { logger } from "../../utils/logger";
+import {
+  ChannelRoute,
+  PostHistoryStatus,
+  PostVariant,
+  Publisher,
+  PublishedPost,
+  PublisherName,
+  PublishRoute,
+  ThreadSegment,
+} from "../../types";
+
+const publishers: Record<PublisherName, Publisher> = {
+  twitter: twitterPublisher,
+  discord: discordPublisher,
+  telegram: telegramPublisher,
+  slack: slackPublisher,
+};
+
+/**
+ * Checks that every channel posts and failure alerts are routed to has a
+ * publisher, so a typo in a CHANNELS_* or ALERT_CHANNELS setting stops
+ * the bot on startup
+ * @throws Error naming the unknown channels
+ */
+export function validateChannelRouting(): void {
+  const routes: [string, string[]][] = [
+    ...Object.entries(publisherConfig.routing),
+    ["ALERT_CHANNELS", alertConfig.channels],
+  ];
+  const unknown = routes.flatMap(([route, channels]) =>
+    channels
+      .filter(
+        (channel) => !Object.prototype.hasOwnProperty.call(publishers, channel),
+      )
+      .map((channel) => `${channel} (${route})`),
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown channels in CHANNELS_* or ALERT_CHANNELS settings: ${unknown.join(", ")}. Available publishers: ${Object.keys(publishers).join(", ")}`,
+    );
+  }
+}
+
+export function getPublisher(name: PublisherName): Publisher {
+  const publisher = publishers[name];
+  if (!publisher) {
+    throw new Error(
+      `Publisher '${name}' not found. Available publishers: ${Object.keys(publishers).join(", ")}`,
+    );
+  }
+  return publisher;
+}
+
+/**
+ * Records a post to a channel other than Twitter in the post history,
+ * with the channel name in place of the account. Twitter records its
+ * posts itself.
+ */
+async function recordChannelPost(
+  channel: PublisherName,
+  segments: ThreadSegment[],
+  variant: PostVariant,
+  status: PostHistoryStatus,
+  error?: string,
+): Promise<void> {
+  if (channel === "twitter") {
+    return;
+  }
+  await postHistory.record({
+    account: channel,
+    text: segments[0]?.text || "",
+    imagePaths: segments[0]?.imagePaths,
+    ...variant,
+    status,
+    error,
+  });
+}
+
+/**
+ * Publishes a post to a channel and records it in the post history. In
+ * dry-run mode posts for channels other than Twitter are written to the
+ * outbox as well, with the channel name in place of the account.
+ */
+async function sendToChannel(
+  channel: PublisherName,
+  route: PublishRoute,
+  segments: ThreadSegment[],
+  variant: PostVariant,
+): Promise<PublishedPost[]> {
+  if (channel !== "twitter" && twitterConfig.publishMode === "dry-run") {
+    const [entry] = writeThreadToOutbox(channel, segments);
+    await recordChannelPost(channel, segments, variant, "dry-run");
+    return [{ channel, id: entry?.id }];
+  }
+
+  const results = await getPublisher(channel).publish(route, segments, variant);
+  await recordChannelPost(channel, segments, variant, "posted");
+  return results;
+}
+
+/**
+ * Publishes a post to a single channel. Failures are recorded in the
+ * post history and thrown.
+ */
+export async function publishToChannel(
+  channel: PublisherName,
+  route: PublishRoute,
+  segments: ThreadSegment[],
+  variant: PostVariant = {},
+): Promise<PublishedPost[]> {
+  try {
+    return await sendToChannel(channel, route, segments, variant);
+  } catch (error: any) {
+    await recordChannelPost(
+      channel,
+      segments,
+      variant,
+      "failed",
+      error.message,
+    );
+    throw error;
+  }
+}
+
+/**
+ * Publishes a post to every channel its kind is routed to. A failure on
+ * one channel does not stop the others. Failed posts to channels other
+ * than Twitter are queued for retry, as Twitter queues its own; the call
+ * only fails when no channel could be published to or queued.
+ */
+export async function publish(
+  route: ChannelRoute,
+  segments: ThreadSegment[],
+  variant: PostVariant = {},
+): Promise<PublishedPost[]> {
+  const results: PublishedPost[] = [];
+  let lastError: unknown;
+
+  for (const channel of publisherConfig.routing[route]) {
+    try {
+      results.push(...(await sendToChannel(channel, route, segments, variant)));
+    } catch (error: any) {
+      logger.error(`Error publishing ${route} post to ${channel}:`, error);
+      if (channel === "twitter") {
+        lastError = error;
+        continue;
+      }
+      retryQueue.enqueue(
+        channel,
+        segments.length > 1 ? "thread" : "tweet",
+        segments,
+        error.message,
+        undefined,
+        variant,
+        { channel, route },
+      );
+      await recordChannelPost(
+        channel,
+        segments,
+        variant,
+        "queued",
+        error.message,
+      );
+      results.push({ channel, queued: true });
+    }
+  }
+
+  if (results.length === 0 && lastError) {
+    throw lastError;
+  }
+  return results;
+}
+
+/**
+ * Retries queued posts for channels other than Twitter whose backoff has
+ * elapsed. A post is recorded as failed in the post history only once
+ * the retry queue gives up on it.
+ */
+export async function processChannelRetries(): Promise<void> {
+  const due = retryQueue.getDue().filter((post) => post.channel);
+
+  for (const post of due) {
+    const variant: PostVariant = {
+      template: post.template,
+      copy: post.copy,
+      payload: post.payload,
+    };
+    try {
+      await sendToChannel(post.channel!, post.route!, post.segments, variant);
+      retryQueue.markSucceeded(post.id);
+      logger.info(`Queued ${post.channel} post ${post.id} published on retry`);
+    } catch (error: any) {
+      logger.error(`Error retrying ${post.channel} post ${post.id}:`, error);
+      if (retryQueue.markAttemptFailed(post.id, error.message, true)) {
+        await recordChannelPost(
+          post.channel!,
+          post.segments,
+          variant,
+          "failed",
+          error.message,
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Publishes a single post with an optional image to every channel its
+ * kind is routed to
+ */
+export function publishPost(
+  route: ChannelRoute,
+  text: string,
+  imagePath?: string,
+  variant: PostVariant = {},
+): Promise<PublishedPost[]> {
+  return publish(
+    route,
+    [{ text, imagePaths: imagePath ? [imagePath] : [] }],
+    variant,
+  );
+}
+
+/**
+ * Lists published posts for log messages, e.g. "twitter 123, slack"
+ */
+export const describePublished = (posts: PublishedPost[]): string =>
+  posts
+    .map((post) =>
+      post.queued
+        ? `${post.channel} (queued for retry)`
+        : post.id
+          ? `${post.channel} ${post.id}`
+          : post.channel,
+    )
+    .join(", ");
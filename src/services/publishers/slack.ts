@@ -0,0 +1,36 @@
+import axios from "axios";
+import { publisherConfig } from "../../config/publishers";
+import { logger } from "../../utils/logger";
+import { Publisher } from "../../types";
+
+/**
+ * Publishes to a Slack channel through an incoming webhook. Incoming
+ * webhooks can't upload files, so images are left out and all segments
+ * are sent as a single message.
+ */
+export const slackPublisher: Publisher = {
+  name: "slack",
+
+  publish: async (route, segments) => {
+    const { baseUrl, webhookPath } = publisherConfig.slack;
+    if (!webhookPath) {
+      throw new Error("SLACK_WEBHOOK_PATH must be set to publish to Slack");
+    }
+
+    if (segments.some((segment) => segment.imagePaths?.length)) {
+      logger.info(
+        `Slack webhooks can't upload images, posting ${route} as text`,
+      );
+    }
+
+    await axios.post(
+      `${baseUrl}${webhookPath}`,
+      { text: segments.map((segment) => segment.text).join("\n\n") },
+      { timeout: 30000 },
+    );
+
+    logger.info(`Published ${route} post to Slack`);
+    // Incoming webhooks don't return the created message
+    return [{ channel: "slack" }];
+  },
+};
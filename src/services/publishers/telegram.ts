@@ -0,0 +1,108 @@
+import fs from "fs";
+import path from "path";
+import axios from "axios";
+import { publisherConfig } from "../../config/publishers";
+import { logger } from "../../utils/logger";
+import { Publisher, ThreadSegment } from "../../types";
+
+// Telegram rejects captions longer than this
+const MAX_CAPTION_LENGTH = 1024;
+
+// Bot API method and field each media format is sent with
+const MEDIA_METHODS: Record<string, { method: string; field: string }> = {
+  ".gif": { method: "sendAnimation", field: "animation" },
+  ".mp4": { method: "sendVideo", field: "video" },
+};
+const PHOTO_METHOD = { method: "sendPhoto", field: "photo" };
+
+/**
+ * Calls a Bot API method with the configured bot and chat
+ * @returns The id of the sent message
+ * @throws Error with Telegram's description when the call fails
+ */
+async function callBotApi(
+  method: string,
+  body: Record<string, string> | FormData,
+): Promise<string> {
+  const { baseUrl, botToken, chatId } = publisherConfig.telegram;
+  if (!botToken || !chatId) {
+    throw new Error(
+      "TELEGRAM_BOT_TOKEN and TELEGRAM_CHAT_ID must be set to publish to Telegram",
+    );
+  }
+
+  if (body instanceof FormData) {
+    body.append("chat_id", chatId);
+  } else {
+    body = { ...body, chat_id: chatId };
+  }
+
+  try {
+    const { data } = await axios.post(
+      `${baseUrl}/bot${botToken}/${method}`,
+      body,
+      {
+        timeout: 30000,
+      },
+    );
+    return String(data.result.message_id);
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.data?.description) {
+      throw new Error(
+        `Telegram ${method} failed: ${error.response.data.description}`,
+      );
+    }
+    throw error;
+  }
+}
+
+async function sendMedia(mediaPath: string, caption?: string): Promise<string> {
+  const { method, field } =
+    MEDIA_METHODS[path.extname(mediaPath).toLowerCase()] || PHOTO_METHOD;
+
+  const form = new FormData();
+  form.append(
+    field,
+    new Blob([fs.readFileSync(mediaPath)]),
+    path.basename(mediaPath),
+  );
+  if (caption) {
+    form.append("caption", caption);
+  }
+  return callBotApi(method, form);
+}
+
+/**
+ * Sends one segment. A single image carries the text as its caption,
+ * otherwise the text is sent first and each image after it.
+ * @returns The id of the first sent message
+ */
+async function sendSegment(segment: ThreadSegment): Promise<string> {
+  const imagePaths = segment.imagePaths || [];
+  if (imagePaths.length === 1 && segment.text.length <= MAX_CAPTION_LENGTH) {
+    return sendMedia(imagePaths[0], segment.text);
+  }
+
+  const id = await callBotApi("sendMessage", { text: segment.text });
+  for (const imagePath of imagePaths) {
+    await sendMedia(imagePath);
+  }
+  return id;
+}
+
+/**
+ * Publishes to a Telegram chat through the Bot API
+ */
+export const telegramPublisher: Publisher = {
+  name: "telegram",
+
+  publish: async (route, segments) => {
+    const ids: string[] = [];
+    for (const segment of segments) {
+      ids.push(await sendSegment(segment));
+    }
+
+    logger.info(`Published ${route} post to Telegram as message ${ids[0]}`);
+    return [{ channel: "telegram", id: ids[0] }];
+  },
+};
@@ -0,0 +1,46 @@
+import { twitterService } from "../twitter";
+import { Publisher } from "../../types";
+
+/**
+ * Publishes to every Twitter account the kind of post is routed to.
+ * A single tweet is posted when the post fits one, a thread otherwise.
+ * Posts queued for retry are reported as queued. Internal messages are
+ * refused.
+ */
+export const twitterPublisher: Publisher = {
+  name: "twitter",
+
+  publish: async (route, segments, variant) => {
+    if (route === "failureAlert") {
+      throw new Error(`${route} messages are internal and never tweeted`);
+    }
+
+    const [first] = segments;
+    const imagePaths = first.imagePaths || [];
+
+    if (segments.length === 1 && imagePaths.length <= 1) {
+      const tweets = await twitterService.postRoutedTweet(
+        route,
+        first.text,
+        imagePaths[0],
+        variant,
+      );
+      return tweets.map((tweet) => ({
+        channel: "twitter",
+        id: tweet.id,
+        queued: Boolean(tweet.retryId),
+      }));
+    }
+
+    const threads = await twitterService.postRoutedThread(
+      route,
+      segments,
+      variant,
+    );
+    return threads.map((tweets) => ({
+      channel: "twitter",
+      id: tweets[0]?.id,
+      queued: tweets.some((tweet) => tweet.retryId),
+    }));
+  },
+};
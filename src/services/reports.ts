@@ -0,0 +1,92 @@
+import { generateRecapMetrics, generateSummaryMetrics } from "./metrics";
+import { describePublished, publish, publishPost } from "./publishers";
+import { getMetricsFacts, postingRules } from "./rules";
+import { generateMetricsImage, TemplateName } from "../utils/image_generator";
+import { inputTemplates } from "../templates";
+import {
+  formatDetailedMetrics,
+  formatRecapToTweet,
+  metricsCopyVariants,
+  splitTweetText,
+} from "../utils/formatters";
+import { RecapKind } from "../types";
+import { logger } from "../utils/logger";
+
+/**
+ * Generates the daily metrics image and posts it to Twitter
+ * Only posts if the metrics match one of the daily summary rules
+ */
+export async function postDailySummary(): Promise<void> {
+  logger.info("Starting metrics check...");
+
+  const metrics = await generateSummaryMetrics();
+  logger.info("Metrics data:", metrics);
+
+  const match = postingRules.evaluate("dailySummary", getMetricsFacts(metrics));
+  if (!match) {
+    logger.info(
+      `24-hour volume (${metrics.last24HoursVolume} USD) matches no daily summary rule. Skipping post.`,
+    );
+    return;
+  }
+
+  logger.info(`Metrics matched rule ${match.rule.name}. Proceeding with post.`);
+
+  const imagePath = await generateMetricsImage(
+    metrics,
+    null,
+    match.rule.template as TemplateName,
+  );
+  logger.info(`Metrics image generated at: ${imagePath}`);
+
+  const tweetText = metricsCopyVariants[match.rule.copy](metrics);
+  const results = await publishPost("dailySummary", tweetText, imagePath, {
+    template: match.rule.template,
+    copy: match.rule.copy,
+    payload: { metrics },
+  });
+  logger.info(`Daily summary published: ${describePublished(results)}`);
+}
+
+/**
+ * Posts a weekly or monthly recap comparing the last complete period
+ * with the one before it
+ */
+export async function postRecap(kind: RecapKind): Promise<void> {
+  const recap = await generateRecapMetrics(kind);
+  logger.info(`${kind} recap data:`, recap);
+
+  const imagePath = await inputTemplates.recap.generate(recap);
+  const tweetText = formatRecapToTweet(recap);
+
+  const results = await publishPost(
+    kind === "weekly" ? "weeklyRecap" : "monthlyRecap",
+    tweetText,
+    imagePath,
+    { template: "recap", copy: kind, payload: { metrics: recap } },
+  );
+  logger.info(`${kind} recap published: ${describePublished(results)}`);
+}
+
+/**
+ * Posts the full detailed metrics report as a thread, with the minimal
+ * metrics image attached to the first tweet
+ */
+export async function postDetailedReport(): Promise<void> {
+  const metrics = await generateSummaryMetrics();
+  const imagePath = await generateMetricsImage(metrics, null, "minimal");
+
+  const segments = splitTweetText(formatDetailedMetrics(metrics)).map(
+    (text, index) => ({
+      text,
+      imagePaths: index === 0 ? [imagePath] : [],
+    }),
+  );
+
+  const results = await publish("detailedReport", segments, {
+    template: "minimal",
+    copy: "detailed",
+    payload: { metrics },
+  });
+  logger.info(`Detailed report published: ${describePublished(results)}`);
+}
@@ -0,0 +1,195 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { copyImage } from "../templates/base";
+import { botConfig } from "../config/bot";
+import { logger } from "../utils/logger";
+import {
+  PostVariant,
+  RetryPost,
+  RetryPostStatus,
+  ThreadSegment,
+} from "../types";
+
+export const RETRY_QUEUE_FILE: string = path.join(
+  __dirname,
+  "..",
+  "retry_queue.json",
+);
+
+// Copies of the media of queued posts, one directory per post
+export const RETRY_MEDIA_DIR: string = path.join(
+  __dirname,
+  "..",
+  "retry_media",
+);
+
+let retryPosts: RetryPost[] = [];
+try {
+  if (fs.existsSync(RETRY_QUEUE_FILE)) {
+    retryPosts = JSON.parse(fs.readFileSync(RETRY_QUEUE_FILE, "utf8"));
+  }
+} catch (error) {
+  logger.error("Error reading retry queue:", error);
+}
+
+function saveRetryPosts(): void {
+  fs.writeFileSync(RETRY_QUEUE_FILE, JSON.stringify(retryPosts, null, 2));
+}
+
+/**
+ * Copies the media of a queued post into a directory of its own, since
+ * templates overwrite their output files on the next render
+ * @returns The segments pointing at the copies
+ */
+function copyMedia(id: string, segments: ThreadSegment[]): ThreadSegment[] {
+  const entryDir = path.join(RETRY_MEDIA_DIR, id);
+
+  return segments.map((segment, index) => ({
+    ...segment,
+    imagePaths: (segment.imagePaths || []).map((imagePath, imageIndex) => {
+      const copyPath = path.join(
+        entryDir,
+        `${index + 1}-${imageIndex + 1}${path.extname(imagePath)}`,
+      );
+      try {
+        fs.mkdirSync(entryDir, { recursive: true });
+        copyImage(imagePath, copyPath);
+        return copyPath;
+      } catch (error) {
+        logger.error(
+          `Error copying ${imagePath} for queued post ${id}:`,
+          error,
+        );
+        return imagePath;
+      }
+    }),
+  }));
+}
+
+function removeMedia(id: string): void {
+  fs.rmSync(path.join(RETRY_MEDIA_DIR, id), { recursive: true, force: true });
+}
+
+/**
+ * Exponential backoff: base delay, then doubled for every further attempt
+ */
+function getBackoffMs(attempts: number): number {
+  return botConfig.retry.baseDelayMs * Math.pow(2, Math.max(attempts - 1, 0));
+}
+
+export const retryQueue = {
+  /**
+   * Persists a failed post for a later attempt
+   * @param notBefore Earliest retry time, e.g. the rate limit reset
+   * @param details Tweet the post continues, for partly posted threads,
+   * or the channel and kind of post for channels other than Twitter
+   */
+  enqueue: (
+    account: string,
+    kind: RetryPost["kind"],
+    segments: ThreadSegment[],
+    error: string,
+    notBefore?: Date,
+    variant: PostVariant = {},
+    details: Pick<RetryPost, "replyTo" | "threadId" | "channel" | "route"> = {},
+  ): RetryPost => {
+    const now = new Date();
+    const backoff = new Date(now.getTime() + getBackoffMs(1));
+
+    const id = crypto.randomUUID();
+    const post: RetryPost = {
+      id,
+      account,
+      kind,
+      segments: copyMedia(id, segments),
+      ...variant,
+      ...details,
+      status: "queued",
+      attempts: 1,
+      createdAt: now.toISOString(),
+      nextAttemptAt: (notBefore && notBefore > backoff
+        ? notBefore
+        : backoff
+      ).toISOString(),
+      lastError: error,
+    };
+
+    retryPosts.push(post);
+    saveRetryPosts();
+
+    logger.info(
+      `Queued ${kind} ${post.id} for ${account} for retry at ${post.nextAttemptAt}`,
+    );
+    return post;
+  },
+
+  getDue: (now: Date = new Date()): RetryPost[] => {
+    return retryPosts.filter(
+      (post) => post.status === "queued" && new Date(post.nextAttemptAt) <= now,
+    );
+  },
+
+  markSucceeded: (id: string): void => {
+    retryPosts = retryPosts.filter((post) => post.id !== id);
+    saveRetryPosts();
+    removeMedia(id);
+  },
+
+  /**
+   * Records that the first remaining segment of a queued thread was
+   * posted, so the next attempt continues after it
+   */
+  markSegmentPosted: (id: string, tweetId: string): void => {
+    const post = retryPosts.find((entry) => entry.id === id);
+    if (!post) return;
+
+    post.segments = post.segments.slice(1);
+    post.replyTo = tweetId;
+    post.threadId = post.threadId || tweetId;
+    saveRetryPosts();
+  },
+
+  /**
+   * Records a failed attempt. The post is rescheduled with backoff, or
+   * marked permanently failed once it reaches the maximum attempt count
+   * or the error is not worth retrying.
+   * @returns Whether the post permanently failed
+   */
+  markAttemptFailed: (
+    id: string,
+    error: string,
+    retryable: boolean,
+    notBefore?: Date,
+  ): boolean => {
+    const post = retryPosts.find((entry) => entry.id === id);
+    if (!post) return false;
+
+    post.attempts += 1;
+    post.lastError = error;
+
+    if (!retryable || post.attempts >= botConfig.retry.maxAttempts) {
+      post.status = "failed";
+      logger.error(
+        `Post ${id} permanently failed after ${post.attempts} attempts: ${error}`,
+      );
+    } else {
+      const backoff = new Date(Date.now() + getBackoffMs(post.attempts));
+      post.nextAttemptAt = (
+        notBefore && notBefore > backoff ? notBefore : backoff
+      ).toISOString();
+      logger.warn(
+        `Retry ${post.attempts} for post ${id} failed, next attempt at ${post.nextAttemptAt}`,
+      );
+    }
+
+    saveRetryPosts();
+    return post.status === "failed";
+  },
+
+  list: (status?: RetryPostStatus): RetryPost[] => {
+    return status
+      ? retryPosts.filter((post) => post.status === status)
+      : retryPosts;
+  },
+};
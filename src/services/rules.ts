@@ -0,0 +1,317 @@
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import { botConfig } from "../config/bot";
+import { ImageTemplate, listTemplates } from "../templates";
+import { metricsCopyVariants, orderCopyVariants } from "../utils/formatters";
+import { logger } from "../utils/logger";
+import {
+  PostingRule,
+  RuleCondition,
+  RuleMatch,
+  RuleTrigger,
+  SuccessfulOrder,
+  SwapMetrics,
+} from "../types";
+
+type Facts = RuleMatch["facts"];
+
+const isScalar = (value: unknown): value is string | number =>
+  typeof value === "string" || typeof value === "number";
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+// Values each condition operator accepts
+const OPERATORS: Record<string, (value: unknown) => boolean> = {
+  eq: isScalar,
+  in: (value) => Array.isArray(value) && value.every(isScalar),
+  gt: isFiniteNumber,
+  gte: isFiniteNumber,
+  lt: isFiniteNumber,
+  lte: isFiniteNumber,
+};
+
+// Facts each trigger exposes to rule conditions
+const TRIGGER_FACTS: Record<RuleTrigger, string[]> = {
+  order: [
+    "sourceChain",
+    "sourceAsset",
+    "destinationChain",
+    "destinationAsset",
+    "volumeUsd",
+    "feeSaved",
+    "timeSavedMinutes",
+    "hourUtc",
+  ],
+  dailySummary: [
+    "allOrders",
+    "totalSwaps",
+    "last24HoursSwaps",
+    "last24HoursVolume",
+    "allTimeVolume",
+    "completionRate",
+    "topChain",
+    "hourUtc",
+  ],
+};
+
+const TRIGGER_COPY: Record<RuleTrigger, Record<string, unknown>> = {
+  order: orderCopyVariants,
+  dailySummary: metricsCopyVariants,
+};
+
+// Input each trigger renders its template with
+const TRIGGER_INPUT: Record<RuleTrigger, ImageTemplate["input"]> = {
+  order: "order",
+  dailySummary: "metrics",
+};
+
+// Plain "in" would accept inherited keys such as "constructor"
+const hasOwn = (object: object, key: unknown): boolean =>
+  typeof key === "string" && Object.prototype.hasOwnProperty.call(object, key);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+let rules: PostingRule[] = [];
+let loadedAt: string | undefined;
+let lastError: string | undefined;
+
+/**
+ * Validates the parsed rules file and returns the rules it contains
+ * @throws Error describing the first invalid rule
+ */
+export function validateRules(data: unknown): PostingRule[] {
+  if (!isObject(data) || !Array.isArray(data.rules)) {
+    throw new Error("Rules file must contain a 'rules' array");
+  }
+
+  const templates = listTemplates();
+
+  return data.rules.map((rule: unknown, index: number): PostingRule => {
+    if (!isObject(rule) || typeof rule.name !== "string" || !rule.name) {
+      throw new Error(`Rule ${index} is missing a name`);
+    }
+
+    const label = `Rule ${rule.name}`;
+    if (!hasOwn(TRIGGER_FACTS, rule.trigger)) {
+      throw new Error(`${label} has unknown trigger '${rule.trigger}'`);
+    }
+
+    const trigger = rule.trigger as RuleTrigger;
+    const template = templates.find(
+      (candidate) => candidate.name === rule.template,
+    );
+    if (!template) {
+      throw new Error(
+        `${label} uses unknown template '${rule.template}'. Available templates: ${templates.map((candidate) => candidate.name).join(", ")}`,
+      );
+    }
+    if (template.input !== TRIGGER_INPUT[trigger]) {
+      throw new Error(
+        `${label} uses template '${template.name}', which renders ${template.input === "order" ? "an order" : "swap metrics"} and cannot be used for trigger ${trigger}`,
+      );
+    }
+    if (!hasOwn(TRIGGER_COPY[trigger], rule.copy)) {
+      throw new Error(
+        `${label} uses unknown copy variant '${rule.copy}'. Available variants: ${Object.keys(TRIGGER_COPY[trigger]).join(", ")}`,
+      );
+    }
+
+    const when = rule.when === undefined ? {} : rule.when;
+    if (!isObject(when)) {
+      throw new Error(`${label} has invalid conditions`);
+    }
+    for (const [fact, condition] of Object.entries(when)) {
+      if (!TRIGGER_FACTS[trigger].includes(fact)) {
+        throw new Error(
+          `${label} conditions on unknown fact '${fact}' for trigger ${trigger}`,
+        );
+      }
+      if (isObject(condition)) {
+        const operators = Object.keys(condition);
+        const unknown = operators.find((op) => !hasOwn(OPERATORS, op));
+        if (operators.length === 0 || unknown) {
+          throw new Error(
+            `${label} has invalid condition on '${fact}': ${JSON.stringify(condition)}`,
+          );
+        }
+        const invalid = operators.find((op) => !OPERATORS[op](condition[op]));
+        if (invalid) {
+          throw new Error(
+            `${label} has invalid '${invalid}' value on '${fact}': ${JSON.stringify(condition[invalid])}`,
+          );
+        }
+      } else if (!["string", "number"].includes(typeof condition)) {
+        throw new Error(`${label} has invalid condition on '${fact}'`);
+      }
+    }
+
+    return {
+      name: rule.name,
+      trigger,
+      when: when as Record<string, RuleCondition>,
+      template: template.name,
+      copy: rule.copy as string,
+    };
+  });
+}
+
+/**
+ * Parses the rules file as YAML when it has a .yaml or .yml extension
+ * and as JSON otherwise
+ */
+function parseRulesFile(file: string): unknown {
+  const content = fs.readFileSync(file, "utf8");
+  return [".yaml", ".yml"].includes(path.extname(file).toLowerCase())
+    ? YAML.parse(content)
+    : JSON.parse(content);
+}
+
+/**
+ * Checks a single condition. Facts that are not known yet only pass
+ * when evaluating partially.
+ */
+function matchCondition(
+  value: string | number | undefined,
+  condition: RuleCondition,
+  partial: boolean,
+): boolean {
+  if (value === undefined) {
+    return partial;
+  }
+
+  if (typeof condition !== "object") {
+    return typeof value === "string" && typeof condition === "string"
+      ? value.toLowerCase() === condition.toLowerCase()
+      : value === condition;
+  }
+
+  const normalise = (v: string | number) =>
+    typeof v === "string" ? v.toLowerCase() : v;
+
+  if (
+    condition.eq !== undefined &&
+    normalise(value) !== normalise(condition.eq)
+  ) {
+    return false;
+  }
+  if (condition.in && !condition.in.map(normalise).includes(normalise(value))) {
+    return false;
+  }
+  if (typeof value !== "number") {
+    return (
+      condition.gt === undefined &&
+      condition.gte === undefined &&
+      condition.lt === undefined &&
+      condition.lte === undefined
+    );
+  }
+  return (
+    (condition.gt === undefined || value > condition.gt) &&
+    (condition.gte === undefined || value >= condition.gte) &&
+    (condition.lt === undefined || value < condition.lt) &&
+    (condition.lte === undefined || value <= condition.lte)
+  );
+}
+
+export const postingRules = {
+  /**
+   * Loads and validates the rules file. When the file is invalid the
+   * previously loaded rules stay active.
+   */
+  load: (): void => {
+    try {
+      const data = parseRulesFile(botConfig.rulesFile);
+      rules = validateRules(data);
+      loadedAt = new Date().toISOString();
+      lastError = undefined;
+      logger.info(
+        `Loaded ${rules.length} posting rules from ${botConfig.rulesFile}`,
+      );
+    } catch (error: any) {
+      lastError = error.message;
+      logger.error(`Error loading posting rules: ${error.message}`);
+      if (!loadedAt) {
+        throw error;
+      }
+    }
+  },
+
+  /**
+   * Reloads the rules whenever the rules file changes on disk
+   */
+  watch: (): void => {
+    fs.watchFile(botConfig.rulesFile, { interval: 5000 }, () => {
+      logger.info("Posting rules file changed, reloading...");
+      postingRules.load();
+    });
+  },
+
+  /**
+   * Returns the first rule for the trigger whose conditions all match.
+   * With partial set, facts that are still undefined are treated as
+   * matching, which lets callers skip expensive lookups early.
+   */
+  evaluate: (
+    trigger: RuleTrigger,
+    facts: Facts,
+    partial: boolean = false,
+  ): RuleMatch | null => {
+    if (!loadedAt) {
+      postingRules.load();
+    }
+
+    const rule = rules.find(
+      (candidate) =>
+        candidate.trigger === trigger &&
+        Object.entries(candidate.when).every(([fact, condition]) =>
+          matchCondition(facts[fact], condition, partial),
+        ),
+    );
+
+    return rule ? { rule, facts } : null;
+  },
+
+  getStatus: () => {
+    return {
+      file: botConfig.rulesFile,
+      count: rules.length,
+      loadedAt,
+      lastError,
+    };
+  },
+};
+
+/**
+ * Builds the facts an order exposes to posting rules
+ */
+export function getOrderFacts(order: SuccessfulOrder): Facts {
+  return {
+    sourceChain: order.source_chain,
+    sourceAsset: order.source_asset,
+    destinationChain: order.destination_chain,
+    destinationAsset: order.destination_asset,
+    volumeUsd: order.volume,
+    feeSaved: order.feeSaved,
+    timeSavedMinutes: order.timeSavedMinutes,
+    hourUtc: new Date().getUTCHours(),
+  };
+}
+
+/**
+ * Builds the facts swap metrics expose to posting rules
+ */
+export function getMetricsFacts(metrics: SwapMetrics): Facts {
+  return {
+    allOrders: metrics.allOrders,
+    totalSwaps: metrics.totalSwaps,
+    last24HoursSwaps: metrics.last24HoursSwaps,
+    last24HoursVolume: metrics.last24HoursVolume,
+    allTimeVolume: metrics.allTimeVolume,
+    completionRate: metrics.completionRate,
+    topChain: metrics.topChain.name,
+    hourUtc: new Date().getUTCHours(),
+  };
+}
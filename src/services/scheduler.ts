@@ -0,0 +1,194 @@
+import cron, { ScheduledTask } from "node-cron";
+import cronParser from "cron-parser";
+import { JobSchedule } from "../config/scheduler";
+import { logger } from "../utils/logger";
+import { JobStatus } from "../types";
+
+interface Job {
+  name: string;
+  schedule: JobSchedule;
+  handler: () => Promise<void>;
+  task: ScheduledTask;
+  active: boolean;
+  inProgress: boolean;
+  lastRunAt?: string;
+  lastFinishedAt?: string;
+  lastError?: string;
+  // Cached until it has passed, so status pages don't re-parse the
+  // expression on every render
+  nextRunAt?: Date | null;
+}
+
+const jobs = new Map<string, Job>();
+
+/**
+ * Finds the next time a cron expression fires after the given date
+ * @param expression Five or six field cron expression
+ * @param timezone Time zone the expression is evaluated in
+ * @param from Date to search from (exclusive)
+ * @returns The next run time or null if the expression never fires
+ */
+export function getNextRun(
+  expression: string,
+  timezone: string,
+  from: Date = new Date(),
+): Date | null {
+  try {
+    return cronParser
+      .parseExpression(expression, { currentDate: from, tz: timezone })
+      .next()
+      .toDate();
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Returns the cached next run of an active job, refreshing it once the
+ * cached time has passed
+ */
+function nextRunOf(job: Job): Date | null {
+  if (!job.active) {
+    return null;
+  }
+  if (
+    job.nextRunAt === undefined ||
+    (job.nextRunAt && job.nextRunAt <= new Date())
+  ) {
+    job.nextRunAt = getNextRun(job.schedule.cron, job.schedule.timezone);
+  }
+  return job.nextRunAt;
+}
+
+function getJob(name: string): Job {
+  const job = jobs.get(name);
+  if (!job) {
+    throw new Error(
+      `Job '${name}' not found. Available jobs: ${Array.from(jobs.keys()).join(", ")}`,
+    );
+  }
+  return job;
+}
+
+/**
+ * Runs a job's handler, recording its run times and last error.
+ * Ticks that arrive while a previous run is still going are skipped.
+ */
+async function execute(job: Job): Promise<void> {
+  if (job.inProgress) {
+    logger.debug(`Job ${job.name} is still running, skipping tick`);
+    return;
+  }
+
+  job.inProgress = true;
+  job.lastRunAt = new Date().toISOString();
+
+  try {
+    await job.handler();
+    job.lastError = undefined;
+  } catch (error: any) {
+    job.lastError = error?.message || String(error);
+    logger.error(`Job ${job.name} failed:`, error);
+  } finally {
+    job.inProgress = false;
+    job.lastFinishedAt = new Date().toISOString();
+  }
+}
+
+export const scheduler = {
+  /**
+   * Registers a named job. The job is created stopped; call start to
+   * schedule it.
+   */
+  register: (
+    name: string,
+    schedule: JobSchedule,
+    handler: () => Promise<void>,
+  ): void => {
+    if (jobs.has(name)) {
+      throw new Error(`Job '${name}' is already registered`);
+    }
+
+    if (
+      !cron.validate(schedule.cron) ||
+      !getNextRun(schedule.cron, schedule.timezone)
+    ) {
+      throw new Error(
+        `Invalid cron expression for job '${name}': ${schedule.cron}`,
+      );
+    }
+
+    const job: Job = {
+      name,
+      schedule,
+      handler,
+      active: false,
+      inProgress: false,
+      task: cron.schedule(schedule.cron, () => execute(job), {
+        scheduled: false,
+        timezone: schedule.timezone,
+        name,
+      }),
+    };
+
+    jobs.set(name, job);
+    logger.info(
+      `Registered job ${name} (${schedule.cron}, ${schedule.timezone})`,
+    );
+  },
+
+  /**
+   * Starts the named job, or every enabled job when no name is given
+   */
+  start: (name?: string): void => {
+    const targets = name
+      ? [getJob(name)]
+      : Array.from(jobs.values()).filter((job) => job.schedule.enabled);
+
+    for (const job of targets) {
+      if (job.active) continue;
+      job.task.start();
+      job.active = true;
+      job.nextRunAt = undefined;
+      logger.info(`Started job ${job.name}`);
+    }
+  },
+
+  /**
+   * Stops the named job, or every job when no name is given
+   */
+  stop: (name?: string): void => {
+    const targets = name ? [getJob(name)] : Array.from(jobs.values());
+
+    for (const job of targets) {
+      if (!job.active) continue;
+      job.task.stop();
+      job.active = false;
+      logger.info(`Stopped job ${job.name}`);
+    }
+  },
+
+  runNow: async (name: string): Promise<void> => {
+    const job = getJob(name);
+    logger.info(`Running job ${name} now`);
+    await execute(job);
+  },
+
+  getStatus: (): JobStatus[] => {
+    return Array.from(jobs.values()).map((job) => {
+      const nextRun = nextRunOf(job);
+
+      return {
+        name: job.name,
+        cron: job.schedule.cron,
+        timezone: job.schedule.timezone,
+        active: job.active,
+        inProgress: job.inProgress,
+        lastRunAt: job.lastRunAt,
+        lastFinishedAt: job.lastFinishedAt,
+        nextRunAt: nextRun?.toISOString(),
+        lastError: job.lastError,
+      };
+    });
+  },
+};
@@ -0,0 +1,169 @@
+import fs from "fs";
+import crypto from "crypto";
+import { db } from "../database/connection";
+import { queries } from "../database/queries";
+import { ensureBotTables } from "../database/schema";
+import { twitterConfig } from "../config/twitter";
+import { logger } from "../utils/logger";
+import { TokenData, TokenStore } from "../types";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_SALT = "swap-metrics-bot-token-store";
+
+let encryptionKey: Buffer | null = null;
+
+/**
+ * Checks that tokens can be encrypted, so a missing secret stops the bot
+ * on startup instead of failing on the first token save
+ * @throws Error if no secret is configured
+ */
+export function assertTokenStoreConfigured(): void {
+  if (!twitterConfig.tokenStore.secret) {
+    throw new Error(
+      "TOKEN_ENCRYPTION_KEY must be set: OAuth tokens are stored encrypted. Generate one with `openssl rand -hex 32`",
+    );
+  }
+}
+
+/**
+ * Derives the encryption key from the configured secret
+ * @throws Error if no secret is configured
+ */
+function getKey(): Buffer {
+  assertTokenStoreConfigured();
+  if (!encryptionKey) {
+    encryptionKey = crypto.scryptSync(
+      twitterConfig.tokenStore.secret,
+      KEY_SALT,
+      32,
+    );
+  }
+  return encryptionKey;
+}
+
+/**
+ * Encrypts a string with AES-256-GCM. The result holds the iv, the
+ * authentication tag and the ciphertext, base64 encoded and joined by dots.
+ */
+function encrypt(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+  ]);
+
+  return [iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => part.toString("base64"))
+    .join(".");
+}
+
+function decrypt(payload: string): string {
+  const [iv, tag, ciphertext] = payload
+    .trim()
+    .split(".")
+    .map((part) => Buffer.from(part, "base64"));
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([
+    decipher.update(ciphertext),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+/**
+ * Stores the tokens of all accounts as a single encrypted file
+ */
+export const encryptedFileTokenStore: TokenStore = {
+  load: async () => {
+    const { file } = twitterConfig.tokenStore;
+    if (!fs.existsSync(file)) {
+      return {};
+    }
+    return JSON.parse(decrypt(fs.readFileSync(file, "utf8")));
+  },
+
+  save: async (tokens) => {
+    const { file } = twitterConfig.tokenStore;
+    // Write to a temporary file first so a crash never leaves a
+    // truncated token file behind
+    const tempFile = `${file}.tmp`;
+    fs.writeFileSync(tempFile, encrypt(JSON.stringify(tokens)), {
+      mode: 0o600,
+    });
+    fs.renameSync(tempFile, file);
+  },
+};
+
+/**
+ * Stores the tokens of each account as an encrypted row of the
+ * bot_tokens table
+ */
+export const postgresTokenStore: TokenStore = {
+  load: async () => {
+    await ensureBotTables("tokens");
+    const result = await db.query(queries.selectTokensQuery);
+
+    const tokens: Record<string, TokenData> = {};
+    for (const row of result.rows) {
+      tokens[row.account] = JSON.parse(decrypt(row.data));
+    }
+    return tokens;
+  },
+
+  save: async (tokens) => {
+    await ensureBotTables("tokens");
+    for (const [account, data] of Object.entries(tokens)) {
+      await db.query(queries.upsertTokenQuery, [
+        account,
+        encrypt(JSON.stringify(data)),
+      ]);
+    }
+  },
+};
+
+/**
+ * Returns the token store selected by the TOKEN_STORE setting
+ */
+export function getTokenStore(): TokenStore {
+  switch (twitterConfig.tokenStore.backend) {
+    case "file":
+      return encryptedFileTokenStore;
+    case "postgres":
+      return postgresTokenStore;
+  }
+}
+
+/**
+ * Imports the plaintext token file written by earlier versions into the
+ * store and deletes it. Does nothing when the store already holds tokens
+ * or no plaintext file exists.
+ * @returns The migrated tokens, or null when nothing was migrated
+ */
+export async function migratePlaintextTokens(
+  store: TokenStore,
+  existing: Record<string, TokenData>,
+): Promise<Record<string, TokenData> | null> {
+  const { legacyFile } = twitterConfig.tokenStore;
+  if (Object.keys(existing).length > 0 || !fs.existsSync(legacyFile)) {
+    return null;
+  }
+
+  const data = JSON.parse(fs.readFileSync(legacyFile, "utf8"));
+  // Files written before multi-account support hold a single account
+  const isSingleAccount = ["state", "accessToken", "refreshToken"].some(
+    (key) => typeof data[key] === "string",
+  );
+  const tokens: Record<string, TokenData> = isSingleAccount
+    ? { [twitterConfig.defaultAccount]: data }
+    : data;
+
+  await store.save(tokens);
+  fs.unlinkSync(legacyFile);
+
+  logger.info(
+    `Migrated plaintext tokens from ${legacyFile} to the ${twitterConfig.tokenStore.backend} token store`,
+  );
+  return tokens;
+}
@@ -1,27 +1,346 @@
-import { EUploadMimeType, TwitterApi } from "twitter-api-v2";
+import {
+  ApiRequestError,
+  ApiResponseError,
+  EUploadMimeType,
+  SendTweetV2Params,
+  TwitterApi,
+  TweetPublicMetricsV2,
+  TweetV2,
+  TwitterRateLimit,
+  UserV2,
+} from "twitter-api-v2";
 import fs from "fs";
+import path from "path";
 import { generateSummaryMetrics } from "./metrics";
 import { logger } from "../utils/logger";
 import { generateMetricsImage, TemplateName } from "../utils/image_generator";
 import { twitterConfig } from "../config/twitter";
-import { TweetResponse } from "../types";
+import { readAltText } from "../templates/base";
 import {
-  addToTweetLog,
-  callbackURL,
-  saveTokenData,
-  tokenData,
-  tweetLog,
-} from "../utils/utilities";
+  PendingOAuth,
+  PostRoute,
+  PostVariant,
+  RetryPost,
+  ThreadSegment,
+  TweetResponse,
+} from "../types";
+import { writeThreadToOutbox, writeToOutbox } from "./outbox";
+import { retryQueue } from "./retryQueue";
+import { postHistory } from "./postHistory";
+import { getTokenData, saveTokenData, tokenData } from "../utils/utilities";
 
 const twitterClient = new TwitterApi({
   clientId: twitterConfig.clientId,
   clientSecret: twitterConfig.clientSecret,
 });
 
+type MediaIds = NonNullable<SendTweetV2Params["media"]>["media_ids"];
+
+export interface PublishOptions extends PostVariant {
+  // Account to post from, defaults to the default account
+  account?: string;
+  // Whether transient failures are added to the retry queue
+  queueOnFailure?: boolean;
+  // Id of the tweet to reply to
+  replyTo?: string;
+  // Id of the first tweet when continuing a partly posted thread
+  threadId?: string;
+  // Called after each tweet of a thread is posted
+  onTweetPosted?: (tweet: TweetResponse) => void;
+  // Retry queue entry being published. Its failures are left out of the
+  // post history until the queue gives up on it.
+  retryId?: string;
+}
+
+// Fallback wait when Twitter rate limits a request without reset headers
+const DEFAULT_RATE_LIMIT_WAIT_MS = 15 * 60 * 1000;
+
+// Twitter user id of each account, looked up once
+const accountUserIds: Record<string, string> = {};
+
+// End of the current rate limit window, per account
+const rateLimitedUntil: Record<string, Date> = {};
+
+/**
+ * Thrown instead of calling the API while a rate limit window is open
+ */
+export class RateLimitedError extends Error {
+  constructor(public resetAt: Date) {
+    super(`Twitter rate limit active until ${resetAt.toISOString()}`);
+    this.name = "RateLimitedError";
+  }
+}
+
+const isRateLimited = (account: string): boolean =>
+  Boolean(rateLimitedUntil[account] && rateLimitedUntil[account] > new Date());
+
+function assertNotRateLimited(account: string): void {
+  if (isRateLimited(account)) {
+    throw new RateLimitedError(rateLimitedUntil[account]);
+  }
+}
+
+// Read endpoints have rate limits of their own, so their windows are kept
+// per account and endpoint and don't hold back posting
+type ReadEndpoint = "mentions" | "tweetLookup";
+const readRateLimitedUntil: Record<string, Date> = {};
+
+function assertReadNotRateLimited(
+  account: string,
+  endpoint: ReadEndpoint
+): void {
+  const resetAt = readRateLimitedUntil[`${account}:${endpoint}`];
+  if (resetAt && resetAt > new Date()) {
+    throw new RateLimitedError(resetAt);
+  }
+}
+
+/**
+ * Starts a back-off window for a read endpoint when a request failed
+ * because of its rate limit
+ */
+function recordReadRateLimit(
+  error: any,
+  account: string,
+  endpoint: ReadEndpoint
+): void {
+  if (
+    error instanceof ApiResponseError &&
+    (error.rateLimitError || error.code === 429)
+  ) {
+    const resetAt = getRateLimitReset(error.rateLimit);
+    readRateLimitedUntil[`${account}:${endpoint}`] = resetAt;
+    logger.warn(
+      `Twitter ${endpoint} rate limit reached for ${account}, backing off until ${resetAt.toISOString()}`
+    );
+  }
+}
+
+/**
+ * Throws when an account is not part of the configured accounts
+ */
+function assertKnownAccount(account: string): void {
+  if (!twitterConfig.accounts.includes(account)) {
+    throw new Error(`Unknown Twitter account: ${account}`);
+  }
+}
+
+/**
+ * Returns when the exhausted rate limit window resets. The daily windows
+ * Twitter reports for posting take precedence when they are exhausted.
+ */
+function getRateLimitReset(rateLimit?: TwitterRateLimit): Date {
+  const windows = [rateLimit, rateLimit?.day, rateLimit?.userDay].filter(
+    (window) => window && window.remaining === 0
+  );
+  const resets = (windows.length > 0 ? windows : [rateLimit])
+    .map((window) => (window?.reset ? window.reset * 1000 : 0))
+    .filter(Boolean);
+
+  return new Date(
+    resets.length > 0
+      ? Math.max(...resets)
+      : Date.now() + DEFAULT_RATE_LIMIT_WAIT_MS
+  );
+}
+
+/**
+ * Inspects an error raised while publishing. Rate limit responses start a
+ * back-off window; 429s, 5xx responses and network errors are transient
+ * and worth retrying.
+ */
+function inspectPublishError(
+  error: any,
+  account: string
+): {
+  retryable: boolean;
+  notBefore?: Date;
+} {
+  const cause = error?.cause || error;
+
+  if (cause instanceof RateLimitedError) {
+    return { retryable: true, notBefore: cause.resetAt };
+  }
+
+  if (cause instanceof ApiResponseError) {
+    if (cause.rateLimitError || cause.code === 429) {
+      const resetAt = getRateLimitReset(cause.rateLimit);
+      rateLimitedUntil[account] = resetAt;
+      logger.warn(
+        `Twitter rate limit reached for ${account}, backing off until ${resetAt.toISOString()}`
+      );
+      return { retryable: true, notBefore: resetAt };
+    }
+    return { retryable: cause.code >= 500 };
+  }
+
+  return { retryable: cause instanceof ApiRequestError };
+}
+
+/**
+ * Records the rate limit state of a failed post and, when the failure is
+ * transient, persists the post in the retry queue. The failure is kept
+ * in the post history either way, except for retry attempts.
+ * @returns The retry entry, when the post was queued
+ */
+function handlePublishError(
+  error: any,
+  kind: RetryPost["kind"],
+  segments: ThreadSegment[],
+  options: PublishOptions & { account: string }
+): RetryPost | undefined {
+  const {
+    account,
+    queueOnFailure = true,
+    template,
+    copy,
+    payload,
+    replyTo,
+    threadId,
+    retryId,
+  } = options;
+  const { retryable, notBefore } = inspectPublishError(error, account);
+  const queued = queueOnFailure && retryable;
+  const retryPost = queued
+    ? retryQueue.enqueue(
+        account,
+        kind,
+        segments,
+        error.message,
+        notBefore,
+        { template, copy, payload },
+        { replyTo, threadId }
+      )
+    : undefined;
+
+  if (!retryId) {
+    postHistory.record({
+      account,
+      text: segments[0]?.text || "",
+      imagePaths: segments[0]?.imagePaths,
+      template,
+      copy,
+      payload,
+      status: queued ? "queued" : "failed",
+      error: error.message,
+    });
+  }
+  return retryPost;
+}
+
+/**
+ * Publishes to every account a kind of post is routed to. A failure on
+ * one account does not stop the others; the call only fails when no
+ * account could be posted to.
+ */
+async function publishToRoute<T>(
+  route: PostRoute,
+  publish: (account: string) => Promise<T>
+): Promise<T[]> {
+  const results: T[] = [];
+  let lastError: unknown;
+
+  for (const account of twitterConfig.routing[route]) {
+    try {
+      results.push(await publish(account));
+    } catch (error) {
+      logger.error(`Error publishing ${route} post to ${account}:`, error);
+      lastError = error;
+    }
+  }
+
+  if (results.length === 0 && lastError) {
+    throw lastError;
+  }
+  return results;
+}
+
+// Twitter rejects alt text longer than this
+const MAX_ALT_TEXT_LENGTH = 1000;
+
+// Videos are uploaded in chunks of this size
+const VIDEO_CHUNK_LENGTH = 4 * 1024 * 1024;
+
+const MIME_TYPES: Record<string, EUploadMimeType> = {
+  ".png": EUploadMimeType.Png,
+  ".jpg": EUploadMimeType.Jpeg,
+  ".jpeg": EUploadMimeType.Jpeg,
+  ".gif": EUploadMimeType.Gif,
+  ".mp4": EUploadMimeType.Mp4,
+};
+
+/**
+ * Picks the upload MIME type from a media file's extension
+ * @throws Error if the format cannot be posted
+ */
+function getMimeType(mediaPath: string): EUploadMimeType {
+  const mimeType = MIME_TYPES[path.extname(mediaPath).toLowerCase()];
+  if (!mimeType) {
+    throw new Error(`Unsupported media format: ${mediaPath}`);
+  }
+  return mimeType;
+}
+
+// GIFs and videos must be the only media of a tweet
+const isAnimated = (mediaPath: string): boolean =>
+  [EUploadMimeType.Gif, EUploadMimeType.Mp4].includes(getMimeType(mediaPath));
+
+/**
+ * Uploads an image, GIF or video with the alt text its template saved
+ * next to it and returns its media id. Videos are streamed from disk in
+ * chunks and the call waits until Twitter has processed them.
+ */
+async function uploadMedia(
+  client: TwitterApi,
+  mediaPath: string
+): Promise<string> {
+  const mimeType = getMimeType(mediaPath);
+  let mediaId: string;
+
+  if (mimeType === EUploadMimeType.Mp4) {
+    logger.info(`Uploading video ${mediaPath} in chunks`);
+    mediaId = await client.v1.uploadMedia(mediaPath, {
+      mimeType,
+      target: "tweet",
+      chunkLength: VIDEO_CHUNK_LENGTH,
+    });
+  } else {
+    const imageBuffer = fs.readFileSync(mediaPath);
+    logger.info(`Image read as buffer, size: ${imageBuffer.length} bytes`);
+    mediaId = await client.v1.uploadMedia(imageBuffer, { mimeType });
+  }
+  logger.info(`Media uploaded successfully with ID: ${mediaId}`);
+
+  const altText = readAltText(mediaPath);
+  // Twitter only accepts alt text for images and GIFs
+  if (altText && mimeType !== EUploadMimeType.Mp4) {
+    // Posting without alt text beats failing the whole post
+    try {
+      await client.v1.createMediaMetadata(mediaId, {
+        alt_text: { text: altText.slice(0, MAX_ALT_TEXT_LENGTH) },
+      });
+      logger.info(`Alt text attached to media ${mediaId}`);
+    } catch (error) {
+      logger.error(
+        `Error attaching alt text to media ${mediaId}, posting without it:`,
+        error
+      );
+    }
+  }
+  return mediaId;
+}
+
 export const twitterService = {
-  getAuthUrl: () => {
+  /**
+   * Starts the OAuth flow for an account. The returned state and verifier
+   * must be kept by the caller, e.g. in the admin session, and passed to
+   * handleCallback.
+   */
+  getAuthUrl: (account: string = twitterConfig.defaultAccount) => {
+    assertKnownAccount(account);
+
     const { url, codeVerifier, state } = twitterClient.generateOAuth2AuthLink(
-      callbackURL,
+      twitterConfig.callbackURL,
       {
         scope: [
           "tweet.read",
@@ -34,20 +353,26 @@ export const twitterService = {
       }
     );
 
-    // Store verifier
-    tokenData.codeVerifier = codeVerifier;
-    tokenData.state = state;
-    saveTokenData();
-
-    return url;
+    const pending: PendingOAuth = { account, codeVerifier, state };
+    return { url, ...pending };
   },
 
-  handleCallback: async (state: string, code: string) => {
-    const { codeVerifier, state: storedState } = tokenData;
-
-    if (state !== storedState || !codeVerifier) {
-      throw new Error("Stored tokens do not match!");
+  /**
+   * Completes an OAuth flow started by getAuthUrl
+   * @param pending The flow the callback belongs to
+   * @param state The state parameter returned by Twitter
+   * @param code The authorization code returned by Twitter
+   */
+  handleCallback: async (
+    pending: PendingOAuth | undefined,
+    state: string,
+    code: string
+  ) => {
+    if (!pending || state !== pending.state) {
+      throw new Error("OAuth state does not match this session");
     }
+    const { account, codeVerifier } = pending;
+    const tokens = getTokenData(account);
 
     const {
       client: loggedClient,
@@ -57,25 +382,30 @@ export const twitterService = {
     } = await twitterClient.loginWithOAuth2({
       code,
       codeVerifier,
-      redirectUri: callbackURL,
+      redirectUri: twitterConfig.callbackURL,
     });
 
     const now = new Date();
-    tokenData.accessToken = accessToken;
-    tokenData.refreshToken = refreshToken;
-    tokenData.expiresAt = new Date(
-      now.getTime() + expiresIn * 1000
-    ).toISOString();
-    tokenData.authenticated = true;
-    saveTokenData();
+    tokens.accessToken = accessToken;
+    tokens.refreshToken = refreshToken;
+    tokens.expiresAt = new Date(now.getTime() + expiresIn * 1000).toISOString();
+    tokens.authenticated = true;
+    await saveTokenData();
 
     const { data } = await loggedClient.v2.me();
-    return data;
+    return { account, user: data };
   },
 
-  getTwitterClient: async (): Promise<TwitterApi> => {
+  getTwitterClient: async (
+    account: string = twitterConfig.defaultAccount
+  ): Promise<TwitterApi> => {
     try {
+      assertKnownAccount(account);
+
+      // The OAuth 1.0a credentials from the environment belong to the
+      // default account
       if (
+        account === twitterConfig.defaultAccount &&
         twitterConfig.apiKey &&
         twitterConfig.apiSecret &&
         twitterConfig.accessToken &&
@@ -90,104 +420,156 @@ export const twitterService = {
         });
       }
 
-      logger.info("Falling back to OAuth 2.0 authentication");
+      logger.info(`Falling back to OAuth 2.0 authentication for ${account}`);
 
-      if (!tokenData.refreshToken) {
+      const tokens = getTokenData(account);
+      if (!tokens.refreshToken) {
         throw new Error(
           "No refresh token available. Please authenticate first."
         );
       }
 
       const now = new Date();
-      const expiresAt = tokenData.expiresAt
-        ? new Date(tokenData.expiresAt)
+      const expiresAt = tokens.expiresAt
+        ? new Date(tokens.expiresAt)
         : new Date(0);
       const fiveMinutesFromNow = new Date(now.getTime() + 5 * 60 * 1000);
 
       if (fiveMinutesFromNow >= expiresAt) {
         logger.info("Token expired or about to expire, refreshing...");
+        let refreshed;
         try {
-          const {
-            client: refreshedClient,
-            accessToken,
-            refreshToken: newRefreshToken,
-            expiresIn,
-          } = await twitterClient.refreshOAuth2Token(tokenData.refreshToken);
-
-          // Update tokens
-          tokenData.accessToken = accessToken;
-          tokenData.refreshToken = newRefreshToken;
-          tokenData.expiresAt = new Date(
-            now.getTime() + expiresIn * 1000
-          ).toISOString();
-          saveTokenData();
-
-          return refreshedClient;
+          refreshed = await twitterClient.refreshOAuth2Token(
+            tokens.refreshToken
+          );
         } catch (refreshError) {
           logger.error("Error refreshing token:", refreshError);
           throw new Error(
             "Failed to refresh token. Please authenticate again."
           );
         }
+
+        // Update tokens
+        tokens.accessToken = refreshed.accessToken;
+        tokens.refreshToken = refreshed.refreshToken;
+        tokens.expiresAt = new Date(
+          now.getTime() + refreshed.expiresIn * 1000
+        ).toISOString();
+
+        // The old refresh token is spent, so keep using the new tokens even
+        // when they can't be stored; the next save writes them again
+        try {
+          await saveTokenData();
+        } catch (saveError) {
+          logger.error(
+            `Refreshed tokens for ${account} could not be saved and are only kept in memory:`,
+            saveError
+          );
+        }
+
+        return refreshed.client;
       }
 
-      if (!tokenData.accessToken) {
+      if (!tokens.accessToken) {
         throw new Error(
           "No access token available. Please authenticate first."
         );
       }
-      return new TwitterApi(tokenData.accessToken);
+      return new TwitterApi(tokens.accessToken);
     } catch (error) {
       logger.error("Error getting Twitter client:", error);
       throw error;
     }
   },
 
-  isAuthenticated: () => {
-    return Boolean(tokenData.authenticated && tokenData.refreshToken);
+  /**
+   * Checks a single account, or whether any account is authenticated
+   * when no account is given
+   */
+  isAuthenticated: (account?: string) => {
+    const accounts = account ? [account] : twitterConfig.accounts;
+    return accounts.some((name) =>
+      Boolean(tokenData[name]?.authenticated && tokenData[name]?.refreshToken)
+    );
   },
 
   getStatus: () => {
     return {
-      authenticated: Boolean(tokenData.authenticated),
-      expiresAt: tokenData.expiresAt,
-      hasRefreshToken: Boolean(tokenData.refreshToken),
+      publishMode: twitterConfig.publishMode,
+      accounts: twitterConfig.accounts.map((account) => ({
+        account,
+        authenticated: Boolean(tokenData[account]?.authenticated),
+        expiresAt: tokenData[account]?.expiresAt,
+        hasRefreshToken: Boolean(tokenData[account]?.refreshToken),
+        rateLimitedUntil: isRateLimited(account)
+          ? rateLimitedUntil[account].toISOString()
+          : undefined,
+        routes: (Object.keys(twitterConfig.routing) as PostRoute[]).filter(
+          (route) => twitterConfig.routing[route].includes(account)
+        ),
+      })),
     };
   },
 
-  getRecentTweets: () => {
-    return tweetLog;
-  },
-
+  /**
+   * Posts a tweet with an optional image. Transient failures are queued
+   * for retry unless queueOnFailure is false; the retry queue then owns
+   * the post and the call resolves with the retry entry's id instead of
+   * throwing, so callers don't retry it a second time.
+   */
   postTweet: async (
     message?: string,
-    imagePath?: string
+    imagePath?: string,
+    options: PublishOptions = {}
   ): Promise<TweetResponse> => {
+    const {
+      account = twitterConfig.defaultAccount,
+      template,
+      copy,
+      payload,
+      replyTo,
+    } = options;
+    const reply = replyTo ? { in_reply_to_tweet_id: replyTo } : undefined;
+    const record = {
+      account,
+      imagePaths: imagePath ? [imagePath] : [],
+      template,
+      copy,
+      payload,
+    };
+
+    if (twitterConfig.publishMode === "dry-run") {
+      await postHistory.record({
+        ...record,
+        text: message || "",
+        status: "dry-run",
+      });
+      return writeToOutbox(account, message || "", imagePath);
+    }
+
     try {
-      const client = await twitterService.getTwitterClient();
+      assertNotRateLimited(account);
+      const client = await twitterService.getTwitterClient(account);
 
       if (imagePath) {
         logger.info(`Attaching image from path: ${imagePath}`);
         try {
-          const imageBuffer = fs.readFileSync(imagePath);
-          logger.info(
-            `Image read as buffer, size: ${imageBuffer.length} bytes`
-          );
-
-          // Upload the media
-          const mediaId = await client.v1.uploadMedia(imageBuffer, {
-            mimeType: EUploadMimeType.Png,
-          });
-          logger.info(`Media uploaded successfully with ID: ${mediaId}`);
+          const mediaId = await uploadMedia(client, imagePath);
 
           // Post the tweet with the media
           const tweet = await client.v2.tweet({
             text: message || "",
             media: { media_ids: [mediaId] },
+            reply,
           });
 
           logger.info("Tweet with image posted successfully");
-          addToTweetLog(message || "(Image only)", tweet.data.id);
+          await postHistory.record({
+            ...record,
+            tweetId: tweet.data.id,
+            text: message || "(Image only)",
+            status: "posted",
+          });
 
           return {
             id: tweet.data.id,
@@ -195,12 +577,20 @@ export const twitterService = {
           };
         } catch (mediaError: any) {
           logger.error("Error uploading media:", mediaError);
-          throw new Error(`Failed to upload media: ${mediaError.message}`);
+          throw Object.assign(
+            new Error(`Failed to upload media: ${mediaError.message}`),
+            { cause: mediaError }
+          );
         }
       } else {
-        const tweet = await client.v2.tweet(message || "");
+        const tweet = await client.v2.tweet({ text: message || "", reply });
         logger.info("Text-only tweet posted successfully");
-        addToTweetLog(message || "", tweet.data.id);
+        await postHistory.record({
+          ...record,
+          tweetId: tweet.data.id,
+          text: message || "",
+          status: "posted",
+        });
 
         return {
           id: tweet.data.id,
@@ -209,10 +599,310 @@ export const twitterService = {
       }
     } catch (error) {
       logger.error("Error posting tweet:", error);
+      const retryPost = handlePublishError(
+        error,
+        "tweet",
+        [{ text: message || "", imagePaths: imagePath ? [imagePath] : [] }],
+        { ...options, account }
+      );
+      if (!retryPost) {
+        throw error;
+      }
+      return { text: message || "", retryId: retryPost.id };
+    }
+  },
+
+  /**
+   * Posts segments as a reply chain. Each segment can carry up to four
+   * images; every tweet of the thread is recorded in the post history.
+   * Like postTweet, a thread queued for retry resolves instead of
+   * throwing, with the tweets posted so far and the retry entry's id.
+   */
+  postThread: async (
+    segments: ThreadSegment[],
+    options: PublishOptions = {}
+  ): Promise<TweetResponse[]> => {
+    const {
+      account = twitterConfig.defaultAccount,
+      template,
+      copy,
+      payload,
+    } = options;
+
+    if (segments.length === 0) {
+      throw new Error("Cannot post an empty thread");
+    }
+
+    if (twitterConfig.publishMode === "dry-run") {
+      for (const segment of segments) {
+        await postHistory.record({
+          account,
+          text: segment.text,
+          imagePaths: segment.imagePaths,
+          template,
+          copy,
+          payload,
+          status: "dry-run",
+        });
+      }
+      return writeThreadToOutbox(account, segments);
+    }
+
+    // Each tweet is recorded as soon as it is posted, so a failure part
+    // way through queues only the rest of the thread, replying to the
+    // last tweet that went out
+    const posted: TweetResponse[] = [];
+    let threadId = options.threadId;
+
+    try {
+      for (const segment of segments) {
+        const imagePaths = segment.imagePaths || [];
+        if (imagePaths.length > 4) {
+          throw new Error("A tweet can carry at most four images");
+        }
+        if (imagePaths.length > 1 && imagePaths.some(isAnimated)) {
+          throw new Error("A GIF or video must be the only media of a tweet");
+        }
+      }
+
+      assertNotRateLimited(account);
+      const client = await twitterService.getTwitterClient(account);
+
+      for (const segment of segments) {
+        const mediaIds: string[] = [];
+        for (const imagePath of segment.imagePaths || []) {
+          mediaIds.push(await uploadMedia(client, imagePath));
+        }
+
+        const replyTo = posted[posted.length - 1]?.id || options.replyTo;
+        const tweet = await client.v2.tweet({
+          text: segment.text,
+          ...(mediaIds.length > 0
+            ? { media: { media_ids: mediaIds as MediaIds } }
+            : {}),
+          ...(replyTo ? { reply: { in_reply_to_tweet_id: replyTo } } : {}),
+        });
+        threadId = threadId || tweet.data.id;
+        posted.push({ id: tweet.data.id, text: tweet.data.text });
+        options.onTweetPosted?.(posted[posted.length - 1]);
+
+        await postHistory.record({
+          tweetId: tweet.data.id,
+          threadId,
+          account,
+          text: segment.text,
+          imagePaths: segment.imagePaths,
+          template,
+          copy,
+          payload,
+          status: "posted",
+        });
+      }
+      logger.info(
+        `Thread of ${posted.length} tweets posted successfully (${threadId})`
+      );
+
+      return posted;
+    } catch (error) {
+      logger.error(
+        `Error posting thread after ${posted.length} of ${segments.length} tweets:`,
+        error
+      );
+      const retryPost = handlePublishError(
+        error,
+        "thread",
+        segments.slice(posted.length),
+        {
+          ...options,
+          account,
+          replyTo: posted[posted.length - 1]?.id || options.replyTo,
+          threadId,
+        }
+      );
+      if (!retryPost) {
+        throw error;
+      }
+      return [
+        ...posted,
+        ...segments
+          .slice(posted.length)
+          .map((segment) => ({ text: segment.text, retryId: retryPost.id })),
+      ];
+    }
+  },
+
+  /**
+   * Posts a tweet to every account the given kind of post is routed to
+   */
+  postRoutedTweet: (
+    route: PostRoute,
+    message?: string,
+    imagePath?: string,
+    variant: PostVariant = {}
+  ): Promise<TweetResponse[]> => {
+    return publishToRoute(route, (account) =>
+      twitterService.postTweet(message, imagePath, { ...variant, account })
+    );
+  },
+
+  /**
+   * Posts a thread to every account the given kind of post is routed to
+   */
+  postRoutedThread: (
+    route: PostRoute,
+    segments: ThreadSegment[],
+    variant: PostVariant = {}
+  ): Promise<TweetResponse[][]> => {
+    return publishToRoute(route, (account) =>
+      twitterService.postThread(segments, { ...variant, account })
+    );
+  },
+
+  /**
+   * Fetches mentions of an account newer than sinceId, oldest first.
+   * Pages are followed back to sinceId, so a burst of mentions isn't cut
+   * off at the first page; a failure on any page fails the whole fetch.
+   */
+  getMentions: async (
+    account: string,
+    sinceId: string
+  ): Promise<{ mentions: TweetV2[]; users: Record<string, UserV2> }> => {
+    assertReadNotRateLimited(account, "mentions");
+    const client = await twitterService.getTwitterClient(account);
+
+    try {
+      if (!accountUserIds[account]) {
+        const { data: me } = await client.v2.me();
+        accountUserIds[account] = me.id;
+      }
+
+      const timeline = await client.v2.userMentionTimeline(
+        accountUserIds[account],
+        {
+          since_id: sinceId,
+          max_results: 100,
+          expansions: ["author_id"],
+          "user.fields": ["username"],
+        }
+      );
+      while (!timeline.done) {
+        await timeline.fetchNext();
+      }
+
+      const users: Record<string, UserV2> = {};
+      for (const user of timeline.includes.users) {
+        users[user.id] = user;
+      }
+      return { mentions: [...timeline.tweets].reverse(), users };
+    } catch (error) {
+      recordReadRateLimit(error, account, "mentions");
       throw error;
     }
   },
 
+  /**
+   * Fetches the public metrics of tweets posted by an account, in
+   * batches of the 100 ids the lookup endpoint accepts
+   * @returns Metrics keyed by tweet id; deleted tweets are missing
+   */
+  getPublicMetrics: async (
+    account: string,
+    tweetIds: string[]
+  ): Promise<Record<string, TweetPublicMetricsV2>> => {
+    assertReadNotRateLimited(account, "tweetLookup");
+    const client = await twitterService.getTwitterClient(account);
+    const metrics: Record<string, TweetPublicMetricsV2> = {};
+
+    try {
+      for (let i = 0; i < tweetIds.length; i += 100) {
+        const result = await client.v2.tweets(tweetIds.slice(i, i + 100), {
+          "tweet.fields": ["public_metrics"],
+        });
+        for (const tweet of result.data || []) {
+          if (tweet.public_metrics) {
+            metrics[tweet.id] = tweet.public_metrics;
+          }
+        }
+      }
+    } catch (error) {
+      recordReadRateLimit(error, account, "tweetLookup");
+      throw error;
+    }
+
+    return metrics;
+  },
+
+  /**
+   * Retries queued posts whose backoff has elapsed. Threads continue
+   * after the last tweet that was posted. Posts of rate limited accounts
+   * wait for the window to reset.
+   */
+  processRetryQueue: async (): Promise<void> => {
+    // Posts for other channels are retried by their publishers
+    const due = retryQueue.getDue().filter((post) => !post.channel);
+    if (due.length === 0) {
+      return;
+    }
+
+    logger.info(`Retrying ${due.length} queued posts`);
+    for (const post of due) {
+      if (isRateLimited(post.account)) {
+        continue;
+      }
+
+      const options: PublishOptions = {
+        account: post.account,
+        queueOnFailure: false,
+        template: post.template,
+        copy: post.copy,
+        payload: post.payload,
+        replyTo: post.replyTo,
+        threadId: post.threadId,
+        retryId: post.id,
+        // A thread that fails again continues after the last tweet posted
+        onTweetPosted: (tweet) =>
+          retryQueue.markSegmentPosted(post.id, tweet.id!),
+      };
+      try {
+        if (post.kind === "thread") {
+          await twitterService.postThread(post.segments, options);
+        } else {
+          const [segment] = post.segments;
+          await twitterService.postTweet(
+            segment.text,
+            segment.imagePaths?.[0],
+            options
+          );
+        }
+        retryQueue.markSucceeded(post.id);
+        logger.info(`Queued post ${post.id} published on retry`);
+      } catch (error: any) {
+        const { retryable, notBefore } = inspectPublishError(
+          error,
+          post.account
+        );
+        const gaveUp = retryQueue.markAttemptFailed(
+          post.id,
+          error.message,
+          retryable,
+          notBefore
+        );
+        if (gaveUp) {
+          await postHistory.record({
+            account: post.account,
+            text: post.segments[0]?.text || "",
+            imagePaths: post.segments[0]?.imagePaths,
+            template: post.template,
+            copy: post.copy,
+            payload: post.payload,
+            status: "failed",
+            error: error.message,
+          });
+        }
+      }
+    }
+  },
+
   postMetricsTweet: async (
     templateName: TemplateName = "standard"
   ): Promise<TweetResponse | null> => {
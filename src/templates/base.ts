@@ -1,12 +1,65 @@
-import { SuccessfulOrder, SwapMetrics } from "../types";
+import fs from "fs";
+import { Canvas } from "canvas";
+import { botConfig } from "../config/bot";
+import { ImageFormat, SuccessfulOrder, SwapMetrics } from "../types";
 
 export interface ImageTemplate {
   name: string;
   description: string;
+  // Whether the template renders a single order or the swap metrics
+  input: "order" | "metrics";
   generate(
     OrderData?: SuccessfulOrder | null,
     metrics?: SwapMetrics | null,
   ): Promise<string>;
+  // Describes what the image shows for screen readers
+  altText(
+    OrderData?: SuccessfulOrder | null,
+    metrics?: SwapMetrics | null,
+  ): string;
+}
+
+// Template rendering a post of its own kind, such as a recap or a
+// milestone. These can't be picked by posting rules.
+export interface InputTemplate<T> {
+  name: string;
+  description: string;
+  generate(input: T): Promise<string>;
+  altText(input: T): string;
+}
+
+/**
+ * Alt text is written next to the generated image, so it travels with
+ * the image path through the approval queue, retry queue and outbox
+ */
+export const getAltTextPath = (imagePath: string): string =>
+  `${imagePath}.alt.txt`;
+
+export function saveAltText(imagePath: string, altText: string): void {
+  fs.writeFileSync(getAltTextPath(imagePath), altText);
+}
+
+/**
+ * Returns the alt text saved for an image, if any
+ */
+export function readAltText(imagePath: string): string | undefined {
+  const altTextPath = getAltTextPath(imagePath);
+  return fs.existsSync(altTextPath)
+    ? fs.readFileSync(altTextPath, "utf8")
+    : undefined;
+}
+
+/**
+ * Copies an image together with its alt text, so the copy keeps the alt
+ * text of this render when the template later overwrites the original
+ */
+export function copyImage(imagePath: string, targetPath: string): void {
+  fs.copyFileSync(imagePath, targetPath);
+
+  const altText = readAltText(imagePath);
+  if (altText) {
+    saveAltText(targetPath, altText);
+  }
 }
 
 export interface TemplateOptions {
@@ -14,4 +67,37 @@ export interface TemplateOptions {
   height?: number;
   backgroundColor?: string;
   textColor?: string;
+  // Defaults to the IMAGE_FORMAT setting
+  format?: ImageFormat;
+}
+
+// Template options once the template's defaults are applied
+export type ResolvedTemplateOptions = Required<
+  Omit<TemplateOptions, "format">
+> &
+  Pick<TemplateOptions, "format">;
+
+/**
+ * Writes a rendered canvas as PNG or JPEG. JPEG uploads are considerably
+ * smaller but lose the sharp edges of text.
+ * @param basePath Output path without the file extension
+ * @returns The path of the written image
+ */
+export function saveCanvas(
+  canvas: Canvas,
+  basePath: string,
+  format: ImageFormat = botConfig.media.imageFormat,
+): string {
+  if (format === "jpeg") {
+    const outputPath = `${basePath}.jpg`;
+    fs.writeFileSync(
+      outputPath,
+      canvas.toBuffer("image/jpeg", { quality: botConfig.media.jpegQuality }),
+    );
+    return outputPath;
+  }
+
+  const outputPath = `${basePath}.png`;
+  fs.writeFileSync(outputPath, canvas.toBuffer("image/png"));
+  return outputPath;
 }
@@ -0,0 +1,123 @@
+import path from "path";
+import fs from "fs";
+import { AnimationFormat, SuccessfulOrder, SwapMetrics } from "../types";
+import {
+  ImageTemplate,
+  ResolvedTemplateOptions,
+  TemplateOptions,
+  saveAltText,
+} from "./base";
+import { renderAnimation } from "../utils/animation";
+import { formatCurrency, formatNumber } from "../utils/formatters";
+import { logger } from "../utils/logger";
+
+// Starts fast and slows down as the counter approaches its final value
+const easeOutCubic = (progress: number): number => 1 - (1 - progress) ** 3;
+
+// Animated template counting the 24-hour volume and orders up from zero
+export class CounterTemplate implements ImageTemplate {
+  name = "counter";
+  description = "Animated counter ticking up to the 24-hour volume";
+  input = "metrics" as const;
+
+  private options: ResolvedTemplateOptions & {
+    animationFormat?: AnimationFormat;
+  };
+
+  constructor(
+    options: TemplateOptions & { animationFormat?: AnimationFormat } = {},
+  ) {
+    this.options = {
+      width: 1080,
+      height: 1080,
+      backgroundColor: "#f5f5f5",
+      textColor: "#333333",
+      ...options,
+    };
+  }
+
+  async generate(
+    OrderData?: SuccessfulOrder | null,
+    metrics?: SwapMetrics | null,
+  ): Promise<string> {
+    try {
+      if (!metrics) {
+        throw new Error("The counter template requires swap metrics");
+      }
+      const { last24HoursVolume, last24HoursSwaps } = metrics;
+      logger.info("Generating animated 24-hour volume counter...");
+
+      const { width, height, backgroundColor, textColor } = this.options;
+
+      const ASSETS_DIR = path.join(__dirname, "../../assets");
+      if (!fs.existsSync(ASSETS_DIR)) {
+        fs.mkdirSync(ASSETS_DIR, { recursive: true });
+      }
+
+      const outputPath = await renderAnimation(
+        (ctx, progress) => {
+          const value = easeOutCubic(progress);
+
+          // Fill background
+          ctx.fillStyle = backgroundColor;
+          ctx.fillRect(0, 0, width, height);
+
+          // Draw border
+          ctx.strokeStyle = "#dddddd";
+          ctx.lineWidth = 10;
+          ctx.strokeRect(40, 40, width - 80, height - 80);
+
+          // Draw header
+          ctx.fillStyle = textColor;
+          ctx.textAlign = "center";
+          ctx.font = "bold 72px Arial, sans-serif";
+          ctx.fillText("LAST 24 HOURS", width / 2, 220);
+
+          // Draw the counters
+          ctx.font = "bold 120px Arial, sans-serif";
+          ctx.fillText(
+            formatCurrency(last24HoursVolume * value),
+            width / 2,
+            480,
+          );
+          ctx.font = "32px Arial, sans-serif";
+          ctx.fillText("VOLUME", width / 2, 540);
+
+          ctx.font = "bold 72px Arial, sans-serif";
+          ctx.fillText(
+            formatNumber(Math.round(last24HoursSwaps * value)),
+            width / 2,
+            700,
+          );
+          ctx.font = "32px Arial, sans-serif";
+          ctx.fillText("ORDERS", width / 2, 750);
+
+          // Draw website
+          ctx.font = "bold 36px Arial, sans-serif";
+          ctx.fillText("https://garden.finance", width / 2, height - 100);
+        },
+        path.join(ASSETS_DIR, `metrics_${this.name}`),
+        { width, height, format: this.options.animationFormat },
+      );
+      saveAltText(outputPath, this.altText(null, metrics));
+
+      logger.info(`Animated counter generated: ${outputPath}`);
+      return outputPath;
+    } catch (error) {
+      logger.error(`Error generating ${this.name} template:`, error);
+      throw error;
+    }
+  }
+
+  altText(
+    OrderData?: SuccessfulOrder | null,
+    metrics?: SwapMetrics | null,
+  ): string {
+    if (!metrics) {
+      return "Animated counter of Garden's last 24 hours";
+    }
+    return `Animated counter ticking up to Garden's last 24 hours: ${formatCurrency(metrics.last24HoursVolume)} in volume across ${formatNumber(metrics.last24HoursSwaps)} orders.`;
+  }
+}
+
+export default new CounterTemplate();
@@ -2,7 +2,12 @@
 import { createCanvas, loadImage, registerFont } from "canvas";
 import path from "path";
 import fs from "fs";
-import { ImageTemplate, TemplateOptions } from "./base";
+import {
+  ImageTemplate,
+  TemplateOptions,
+  saveAltText,
+  saveCanvas,
+} from "./base";
 import { formatCurrency, formatChainName } from "../utils/formatters";
 import { logger } from "../utils/logger";
 import { SuccessfulOrder } from "../types";
@@ -56,6 +61,7 @@ export class GardenOrderTemplate implements ImageTemplate {
   name = "garden_order";
   description =
     "Template for displaying transaction metrics in a garden card format";
+  input = "order" as const;
 
   private options: TemplateOptions;
   private assetsDir = path.join(__dirname, "../../assets");
@@ -115,7 +121,9 @@ export class GardenOrderTemplate implements ImageTemplate {
       this.renderTimeMetrics(ctx, orderData.timeSaved || "31m 54s");
       this.renderCostMetrics(ctx, orderData.feeSaved);
 
-      return this.saveImage(canvas, orderData.create_order_id);
+      const outputPath = this.saveImage(canvas, orderData.create_order_id);
+      saveAltText(outputPath, this.altText(orderData));
+      return outputPath;
     } catch (error) {
       logger.error("Error generating garden order template:", error);
       throw error;
@@ -270,17 +278,24 @@ export class GardenOrderTemplate implements ImageTemplate {
    * Saves the rendered image to disk
    */
   private saveImage(canvas: any, orderId: string): string {
-    const outputPath = path.join(
-      this.assetsDir,
-      `garden_order_${orderId.substring(0, 8)}.png`
+    const outputPath = saveCanvas(
+      canvas,
+      path.join(this.assetsDir, `garden_order_${orderId.substring(0, 8)}`),
+      this.options.format
     );
 
-    const buffer = canvas.toBuffer("image/png");
-    fs.writeFileSync(outputPath, buffer);
-
     logger.info(`Garden order image generated: ${outputPath}`);
     return outputPath;
   }
+
+  altText(orderData: SuccessfulOrder): string {
+    const feeSaved =
+      orderData.feeSaved !== undefined
+        ? ` and saved ${formatCurrency(orderData.feeSaved)} in fees`
+        : "";
+
+    return `Garden swap of ${formatCurrency(orderData.volume)} from ${formatChainName(orderData.source_chain)} to ${formatChainName(orderData.destination_chain)}. It was ${orderData.timeSaved ? `${orderData.timeSaved} faster` : "faster"} than other bridges${feeSaved}.`;
+  }
 }
 
 export default new GardenOrderTemplate();
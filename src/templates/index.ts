@@ -1,12 +1,24 @@
 import { SuccessfulOrder, SwapMetrics } from "../types";
 import { TemplateName } from "../utils/image_generator";
-import { ImageTemplate } from "./base";
+import { ImageTemplate, InputTemplate } from "./base";
 import minimalTemplate from "./minimal";
+import counterTemplate from "./counter";
 import orderTemplate from "./order";
+import leaderboardTemplate from "./leaderboard";
+import recapTemplate from "./recap";
+import milestoneTemplate from "./milestone";
 
 const templates: Record<string, ImageTemplate> = {
   minimal: minimalTemplate,
   order: orderTemplate,
+  counter: counterTemplate,
+  leaderboard: leaderboardTemplate,
+};
+
+// Templates of recap and milestone posts, which render their own input
+export const inputTemplates = {
+  recap: recapTemplate,
+  milestone: milestoneTemplate,
 };
 
 export function getTemplate(name: string): ImageTemplate {
@@ -36,4 +48,4 @@ export async function generateImage(
   }
 }
 
-export { ImageTemplate };
+export { ImageTemplate, InputTemplate };
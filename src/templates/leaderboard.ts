@@ -0,0 +1,152 @@
+// @ts-nocheck
+import { createCanvas } from "canvas";
+import path from "path";
+import { LeaderboardEntry, SwapMetrics } from "../types";
+import {
+  ImageTemplate,
+  TemplateOptions,
+  saveAltText,
+  saveCanvas,
+} from "./base";
+import {
+  formatCurrency,
+  formatNumber,
+  formatPercentage,
+} from "../utils/formatters";
+import { logger } from "../utils/logger";
+
+// Leaderboard template ranking routes and source chains by volume, with
+// bars sized by each entry's share of the volume
+export class LeaderboardTemplate implements ImageTemplate {
+  name = "leaderboard";
+  description = "Top routes and source chains by volume as bar charts";
+  input = "metrics" as const;
+
+  private options: TemplateOptions & { barColor?: string };
+
+  constructor(options: TemplateOptions & { barColor?: string } = {}) {
+    this.options = {
+      width: 1080,
+      height: 1080,
+      backgroundColor: "#f5f5f5",
+      textColor: "#333333",
+      barColor: "#e36492",
+      ...options,
+    };
+  }
+
+  async generate(
+    OrderData?: SuccessfulOrder | null,
+    metrics?: SwapMetrics | null,
+  ): Promise<string> {
+    try {
+      logger.info("Generating metrics image with leaderboard template...");
+
+      const { width, height, backgroundColor, textColor, barColor } =
+        this.options;
+      const canvas = createCanvas(width, height);
+      const ctx = canvas.getContext("2d");
+
+      // Fill background
+      ctx.fillStyle = backgroundColor;
+      ctx.fillRect(0, 0, width, height);
+
+      // Draw border
+      ctx.strokeStyle = "#dddddd";
+      ctx.lineWidth = 10;
+      ctx.strokeRect(40, 40, width - 80, height - 80);
+
+      // Draw header
+      ctx.fillStyle = textColor;
+      ctx.font = "bold 64px Arial, sans-serif";
+      ctx.textAlign = "center";
+      ctx.fillText("LEADERBOARD", width / 2, 160);
+
+      const left = 100;
+      const barWidth = width - 2 * left;
+
+      // Draws a titled board, one bar per entry, and returns where it ends
+      const drawBoard = (
+        title: string,
+        entries: LeaderboardEntry[],
+        top: number,
+      ): number => {
+        ctx.textAlign = "left";
+        ctx.fillStyle = textColor;
+        ctx.font = "bold 36px Arial, sans-serif";
+        ctx.fillText(title, left, top);
+
+        let y = top + 30;
+        if (entries.length === 0) {
+          ctx.font = "28px Arial, sans-serif";
+          ctx.fillText("No swaps yet", left, y + 30);
+          return y + 60;
+        }
+
+        for (const entry of entries) {
+          // Bar behind the label, scaled to the entry's share
+          ctx.fillStyle = "#e8e8e8";
+          ctx.fillRect(left, y, barWidth, 56);
+          ctx.fillStyle = barColor;
+          ctx.fillRect(left, y, Math.max(4, barWidth * entry.share), 56);
+
+          ctx.fillStyle = textColor;
+          ctx.font = "26px Arial, sans-serif";
+          ctx.textAlign = "left";
+          ctx.fillText(entry.name, left + 16, y + 37, barWidth * 0.6);
+          ctx.textAlign = "right";
+          ctx.font = "bold 26px Arial, sans-serif";
+          ctx.fillText(
+            `${formatCurrency(entry.volume)} · ${formatPercentage(entry.share)}`,
+            left + barWidth - 16,
+            y + 37,
+          );
+          y += 68;
+        }
+        return y;
+      };
+
+      const { routes, sourceChains } = metrics.leaderboards;
+      const routesEnd = drawBoard("TOP ROUTES", routes.slice(0, 5), 260);
+      drawBoard("TOP SOURCE CHAINS", sourceChains.slice(0, 3), routesEnd + 60);
+
+      // Draw website
+      ctx.fillStyle = textColor;
+      ctx.textAlign = "center";
+      ctx.font = "bold 36px Arial, sans-serif";
+      ctx.fillText("https://garden.finance", width / 2, height - 80);
+
+      // Save the image
+      const ASSETS_DIR = path.join(__dirname, "../../assets");
+      const outputPath = saveCanvas(
+        canvas,
+        path.join(ASSETS_DIR, `metrics_${this.name}`),
+        this.options.format,
+      );
+      saveAltText(outputPath, this.altText(null, metrics));
+
+      logger.info(
+        `Metrics image with ${this.name} template generated: ${outputPath}`,
+      );
+      return outputPath;
+    } catch (error) {
+      logger.error(`Error generating ${this.name} template:`, error);
+      throw error;
+    }
+  }
+
+  altText(OrderData?: SuccessfulOrder | null, metrics?: SwapMetrics): string {
+    const describe = (entries: LeaderboardEntry[]) =>
+      entries
+        .map(
+          (entry, index) =>
+            `${index + 1}. ${entry.name}, ${formatCurrency(entry.volume)} (${formatPercentage(entry.share)} of volume, ${formatNumber(entry.count)} orders)`,
+        )
+        .join("; ") || "none yet";
+
+    const { routes, sourceChains } = metrics.leaderboards;
+    return `Garden leaderboard. Top routes by volume: ${describe(routes.slice(0, 5))}. Top source chains: ${describe(sourceChains.slice(0, 3))}.`;
+  }
+}
+
+export default new LeaderboardTemplate();
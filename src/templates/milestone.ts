@@ -0,0 +1,97 @@
+import { createCanvas } from "canvas";
+import path from "path";
+import fs from "fs";
+import { Milestone } from "../types";
+import {
+  InputTemplate,
+  ResolvedTemplateOptions,
+  TemplateOptions,
+  saveAltText,
+  saveCanvas,
+} from "./base";
+import { formatMilestoneValue } from "../utils/formatters";
+import { logger } from "../utils/logger";
+
+// Celebration template for cumulative volume and order milestones
+export class MilestoneTemplate implements InputTemplate<Milestone> {
+  name = "milestone";
+  description = "Celebration card for cumulative volume and order milestones";
+
+  private options: ResolvedTemplateOptions;
+
+  constructor(options: TemplateOptions = {}) {
+    this.options = {
+      width: 1080,
+      height: 1080,
+      backgroundColor: "#554B6A",
+      textColor: "#ffffff",
+      ...options,
+    };
+  }
+
+  async generate(milestone: Milestone): Promise<string> {
+    try {
+      logger.info("Generating milestone image...");
+
+      const { width, height, backgroundColor, textColor } = this.options;
+      const canvas = createCanvas(width, height);
+      const ctx = canvas.getContext("2d");
+
+      // Fill background
+      ctx.fillStyle = backgroundColor;
+      ctx.fillRect(0, 0, width, height);
+
+      // Draw border
+      ctx.strokeStyle = "#E36492";
+      ctx.lineWidth = 10;
+      ctx.strokeRect(40, 40, width - 80, height - 80);
+
+      // Draw header
+      ctx.fillStyle = textColor;
+      ctx.textAlign = "center";
+      ctx.font = "bold 56px Arial, sans-serif";
+      ctx.fillText("MILESTONE UNLOCKED", width / 2, 260);
+
+      // Draw milestone value
+      ctx.font = "bold 180px Arial, sans-serif";
+      ctx.fillText(formatMilestoneValue(milestone), width / 2, 520);
+
+      ctx.font = "40px Arial, sans-serif";
+      ctx.fillText(
+        milestone.metric === "volume" ? "TOTAL VOLUME" : "SWAPS COMPLETED",
+        width / 2,
+        600,
+      );
+
+      // Draw website
+      ctx.font = "bold 36px Arial, sans-serif";
+      ctx.fillText("https://garden.finance", width / 2, height - 100);
+
+      // Save the image
+      const ASSETS_DIR = path.join(__dirname, "../../assets");
+      const outputPath = saveCanvas(
+        canvas,
+        path.join(
+          ASSETS_DIR,
+          `milestone_${milestone.metric}_${milestone.value}`,
+        ),
+        this.options.format,
+      );
+      saveAltText(outputPath, this.altText(milestone));
+
+      logger.info(`Milestone image generated: ${outputPath}`);
+      return outputPath;
+    } catch (error) {
+      logger.error(`Error generating ${this.name} template:`, error);
+      throw error;
+    }
+  }
+
+  altText(milestone: Milestone): string {
+    return milestone.metric === "volume"
+      ? `Milestone unlocked: ${formatMilestoneValue(milestone)} in total volume bridged through Garden.`
+      : `Milestone unlocked: ${formatMilestoneValue(milestone)} swaps completed on Garden.`;
+  }
+}
+
+export default new MilestoneTemplate();
@@ -3,14 +3,24 @@ import { createCanvas, loadImage } from "canvas";
 import path from "path";
 import fs from "fs";
 import { SwapMetrics } from "../types";
-import { ImageTemplate, TemplateOptions } from "./base";
-import { formatCurrency, formatPercentage } from "../utils/formatters";
+import {
+  ImageTemplate,
+  TemplateOptions,
+  saveAltText,
+  saveCanvas,
+} from "./base";
+import {
+  formatCurrency,
+  formatNumber,
+  formatPercentage,
+} from "../utils/formatters";
 import { logger } from "../utils/logger";
 
 // Minimal template with just key metrics and a clean design
 export class MinimalTemplate implements ImageTemplate {
   name = "minimal";
   description = "Minimal template with clean design and key metrics only";
+  input = "metrics" as const;
 
   private options: TemplateOptions;
 
@@ -85,15 +95,27 @@ export class MinimalTemplate implements ImageTemplate {
         metricsY + metricsSpacing * 2 + 50,
       );
 
+      ctx.font = "bold 48px Arial, sans-serif";
+      ctx.fillText(
+        `${formatNumber(metrics.users.active)} (${formatNumber(metrics.users.new)} new)`,
+        width / 2,
+        metricsY + metricsSpacing * 3,
+      );
+      ctx.font = "32px Arial, sans-serif";
+      ctx.fillText("24H USERS", width / 2, metricsY + metricsSpacing * 3 + 50);
+
       // Draw website
       ctx.font = "bold 36px Arial, sans-serif";
       ctx.fillText("https://garden.finance", width / 2, height - 100);
 
       // Save the image
       const ASSETS_DIR = path.join(__dirname, "../../assets");
-      const outputPath = path.join(ASSETS_DIR, `metrics_${this.name}.png`);
-      const buffer = canvas.toBuffer("image/png");
-      fs.writeFileSync(outputPath, buffer);
+      const outputPath = saveCanvas(
+        canvas,
+        path.join(ASSETS_DIR, `metrics_${this.name}`),
+        this.options.format,
+      );
+      saveAltText(outputPath, this.altText(null, metrics));
 
       logger.info(
         `Metrics image with ${this.name} template generated: ${outputPath}`,
@@ -104,6 +126,10 @@ export class MinimalTemplate implements ImageTemplate {
       throw error;
     }
   }
+
+  altText(OrderData?: SuccessfulOrder | null, metrics?: SwapMetrics): string {
+    return `Garden swap metrics: ${formatCurrency(metrics.allTimeVolume)} total volume, ${formatNumber(metrics.last24HoursSwaps)} orders and ${formatNumber(metrics.users.active)} users (${formatNumber(metrics.users.new)} new) in the last 24 hours and a ${formatPercentage(metrics.completionRate)} success rate.`;
+  }
 }
 
 export default new MinimalTemplate();
@@ -2,7 +2,12 @@
 import { createCanvas, loadImage } from "canvas";
 import path from "path";
 import fs from "fs";
-import { ImageTemplate, TemplateOptions } from "./base";
+import {
+  ImageTemplate,
+  TemplateOptions,
+  saveAltText,
+  saveCanvas,
+} from "./base";
 import { formatCurrency, formatChainName } from "../utils/formatters";
 import { logger } from "../utils/logger";
 import { SuccessfulOrder } from "../types";
@@ -11,6 +16,7 @@ import { SuccessfulOrder } from "../types";
 export class OrderTemplate implements ImageTemplate {
   name = "order";
   description = "Template for displaying individual successful orders";
+  input = "order" as const;
 
   private options: TemplateOptions;
 
@@ -130,12 +136,15 @@ export class OrderTemplate implements ImageTemplate {
       if (!fs.existsSync(ASSETS_DIR)) {
         fs.mkdirSync(ASSETS_DIR, { recursive: true });
       }
-      const outputPath = path.join(
-        ASSETS_DIR,
-        `order_${orderData.create_order_id.substring(0, 8)}.png`
+      const outputPath = saveCanvas(
+        canvas,
+        path.join(
+          ASSETS_DIR,
+          `order_${orderData.create_order_id.substring(0, 8)}`
+        ),
+        this.options.format
       );
-      const buffer = canvas.toBuffer("image/png");
-      fs.writeFileSync(outputPath, buffer);
+      saveAltText(outputPath, this.altText(orderData));
 
       logger.info(`Order image generated: ${outputPath}`);
       return outputPath;
@@ -144,6 +153,15 @@ export class OrderTemplate implements ImageTemplate {
       throw error;
     }
   }
+
+  altText(orderData: SuccessfulOrder): string {
+    const savings =
+      orderData.feeSaved !== undefined && orderData.timeSaved !== undefined
+        ? ` It saved ${formatCurrency(orderData.feeSaved)} in fees and ${orderData.timeSaved} compared to other bridges.`
+        : "";
+
+    return `High volume swap on Garden: ${formatCurrency(orderData.volume)} from ${orderData.source_asset} on ${formatChainName(orderData.source_chain)} to ${orderData.destination_asset} on ${formatChainName(orderData.destination_chain)}, completed ${new Date(orderData.created_at).toUTCString()}.${savings}`;
+  }
 }
 
 export default new OrderTemplate();
@@ -0,0 +1,160 @@
+import { createCanvas } from "canvas";
+import path from "path";
+import fs from "fs";
+import { RecapMetrics } from "../types";
+import {
+  InputTemplate,
+  ResolvedTemplateOptions,
+  TemplateOptions,
+  saveAltText,
+  saveCanvas,
+} from "./base";
+import {
+  formatChainName,
+  formatChange,
+  formatCurrency,
+  formatNumber,
+  formatPercentage,
+  formatPeriod,
+  formatPointChange,
+} from "../utils/formatters";
+import { logger } from "../utils/logger";
+
+// Recap template comparing a week or month against the previous one
+export class RecapTemplate implements InputTemplate<RecapMetrics> {
+  name = "recap";
+  description =
+    "Weekly or monthly recap with changes versus the previous period";
+
+  private options: ResolvedTemplateOptions;
+
+  constructor(options: TemplateOptions = {}) {
+    this.options = {
+      width: 1080,
+      height: 1080,
+      backgroundColor: "#f5f5f5",
+      textColor: "#333333",
+      ...options,
+    };
+  }
+
+  async generate(recap: RecapMetrics): Promise<string> {
+    try {
+      logger.info(`Generating ${recap.kind} recap image...`);
+
+      const { width, height, backgroundColor, textColor } = this.options;
+      const canvas = createCanvas(width, height);
+      const ctx = canvas.getContext("2d");
+      const { current, change } = recap;
+
+      // Fill background
+      ctx.fillStyle = backgroundColor;
+      ctx.fillRect(0, 0, width, height);
+
+      // Draw border
+      ctx.strokeStyle = "#dddddd";
+      ctx.lineWidth = 10;
+      ctx.strokeRect(40, 40, width - 80, height - 80);
+
+      // Draw header
+      ctx.fillStyle = textColor;
+      ctx.textAlign = "center";
+      ctx.font = "bold 72px Arial, sans-serif";
+      ctx.fillText(
+        recap.kind === "weekly" ? "WEEKLY RECAP" : "MONTHLY RECAP",
+        width / 2,
+        170,
+      );
+      ctx.font = "32px Arial, sans-serif";
+      ctx.fillText(formatPeriod(current.from, current.to), width / 2, 225);
+
+      // Draw each metric with its change against the previous period
+      const rows = [
+        {
+          label: "ORDERS",
+          value: formatNumber(current.orders),
+          change: change.orders,
+          changeText: formatChange(change.orders),
+        },
+        {
+          label: "VOLUME",
+          value: formatCurrency(current.volume),
+          change: change.volume,
+          changeText: formatChange(change.volume),
+        },
+        {
+          label: "SUCCESS RATE",
+          value: formatPercentage(current.completionRate),
+          change: change.completionRate,
+          changeText: formatPointChange(change.completionRate),
+        },
+      ];
+
+      const metricsY = 340;
+      const metricsSpacing = 130;
+
+      rows.forEach((row, index) => {
+        const y = metricsY + metricsSpacing * index;
+
+        ctx.fillStyle = textColor;
+        ctx.font = "bold 48px Arial, sans-serif";
+        ctx.fillText(row.value, width / 2, y);
+
+        ctx.font = "32px Arial, sans-serif";
+        ctx.fillStyle = !row.change
+          ? textColor
+          : row.change > 0
+            ? "#1a7f37"
+            : "#cf222e";
+        ctx.fillText(`${row.label} · ${row.changeText}`, width / 2, y + 50);
+      });
+
+      // Draw top performers
+      ctx.fillStyle = textColor;
+      ctx.font = "28px Arial, sans-serif";
+      ctx.fillText(
+        `TOP CHAIN: ${formatChainName(current.topChain.name)} (${formatNumber(current.topChain.count)})`,
+        width / 2,
+        metricsY + metricsSpacing * 3 + 10,
+      );
+      ctx.fillText(
+        `TOP PAIR: ${current.topAssetPair.pair} (${formatNumber(current.topAssetPair.count)})`,
+        width / 2,
+        metricsY + metricsSpacing * 3 + 60,
+      );
+
+      // Draw website
+      ctx.font = "bold 36px Arial, sans-serif";
+      ctx.fillText("https://garden.finance", width / 2, height - 100);
+
+      // Save the image
+      const ASSETS_DIR = path.join(__dirname, "../../assets");
+      const outputPath = saveCanvas(
+        canvas,
+        path.join(ASSETS_DIR, `recap_${recap.kind}`),
+        this.options.format,
+      );
+      saveAltText(outputPath, this.altText(recap));
+
+      logger.info(`Recap image generated: ${outputPath}`);
+      return outputPath;
+    } catch (error) {
+      logger.error(`Error generating ${this.name} template:`, error);
+      throw error;
+    }
+  }
+
+  altText(recap: RecapMetrics): string {
+    const { current, change } = recap;
+    return [
+      `Garden ${recap.kind} recap for ${formatPeriod(current.from, current.to)}:`,
+      `${formatNumber(current.orders)} orders (${formatChange(change.orders)}),`,
+      `${formatCurrency(current.volume)} volume (${formatChange(change.volume)})`,
+      `and a ${formatPercentage(current.completionRate)} success rate (${formatPointChange(change.completionRate)}) compared to the previous period.`,
+      `Top chain: ${formatChainName(current.topChain.name)} with ${formatNumber(current.topChain.count)} orders.`,
+      `Top pair: ${current.topAssetPair.pair} with ${formatNumber(current.topAssetPair.count)} orders.`,
+    ].join(" ");
+  }
+}
+
+export default new RecapTemplate();
@@ -0,0 +1,113 @@
+import test, { after, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import { interruptedPostId, tmpDir } from "./helpers/pendingPostsFile";
+import { approvalQueue } from "../services/approvalQueue";
+import { twitterService } from "../services/twitter";
+import { botConfig } from "../config/bot";
+
+afterEach(() => mock.restoreAll());
+
+after(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+test("posts that were being approved on load await review again", () => {
+  const post = approvalQueue.get(interruptedPostId);
+
+  assert.equal(post?.status, "pending");
+  assert.equal(post?.reviewedAt, undefined);
+});
+
+test("approve publishes a pending post once", async () => {
+  const postTweet = mock.method(twitterService, "postTweet", async () => ({
+    id: "tweet-1",
+    text: "gm",
+  }));
+  const { id } = approvalQueue.enqueue("main", "gm");
+
+  const post = await approvalQueue.approve(id);
+
+  assert.equal(post.status, "approved");
+  assert.equal(post.tweetId, "tweet-1");
+  assert.equal(postTweet.mock.callCount(), 1);
+  await assert.rejects(approvalQueue.approve(id), /already approved/);
+  assert.equal(postTweet.mock.callCount(), 1);
+
+  const saved = JSON.parse(
+    fs.readFileSync(process.env.PENDING_POSTS_FILE!, "utf8"),
+  );
+  assert.equal(saved.find((entry: any) => entry.id === id).status, "approved");
+});
+
+test("approve rejects a post that is already being approved", async () => {
+  let publish: () => void = () => {};
+  mock.method(
+    twitterService,
+    "postTweet",
+    () =>
+      new Promise((resolve) => {
+        publish = () => resolve({ id: "tweet-2", text: "gm" });
+      }),
+  );
+  const { id } = approvalQueue.enqueue("main", "gm");
+
+  const first = approvalQueue.approve(id);
+  await assert.rejects(approvalQueue.approve(id), /already approving/);
+  publish();
+
+  assert.equal((await first).status, "approved");
+});
+
+test("approve keeps the retry of a post queued after a failed attempt", async () => {
+  mock.method(twitterService, "postTweet", async () => ({
+    text: "gm",
+    retryId: "retry-1",
+  }));
+  const { id } = approvalQueue.enqueue("main", "gm");
+
+  const post = await approvalQueue.approve(id);
+
+  assert.equal(post.status, "approved");
+  assert.equal(post.retryId, "retry-1");
+  assert.equal(post.tweetId, undefined);
+});
+
+test("approve marks posts that fail to publish as failed", async () => {
+  mock.method(twitterService, "postTweet", async () => {
+    throw new Error("Twitter is down");
+  });
+  const { id } = approvalQueue.enqueue("main", "gm");
+
+  const post = await approvalQueue.approve(id);
+
+  assert.equal(post.status, "failed");
+  assert.equal(post.error, "Twitter is down");
+});
+
+test("rejected posts can't be edited or approved", async () => {
+  const postTweet = mock.method(twitterService, "postTweet");
+  const { id } = approvalQueue.enqueue("main", "gm");
+
+  assert.equal(approvalQueue.updateText(id, "gn").text, "gn");
+  assert.equal(approvalQueue.reject(id).status, "rejected");
+  assert.throws(() => approvalQueue.updateText(id, "gm"), /already rejected/);
+  await assert.rejects(approvalQueue.approve(id), /already rejected/);
+  assert.equal(postTweet.mock.callCount(), 0);
+});
+
+test("posts expire once their review window has passed", async () => {
+  const { expiryHours } = botConfig.approval;
+  botConfig.approval.expiryHours = 0;
+  const { id } = approvalQueue.enqueue("main", "gm");
+  botConfig.approval.expiryHours = expiryHours;
+
+  assert.equal(approvalQueue.get(id)?.status, "expired");
+  assert.deepEqual(
+    approvalQueue.list("pending").filter((post) => post.id === id),
+    [],
+  );
+  await assert.rejects(approvalQueue.approve(id), /already expired/);
+});
+
+test("approve throws for unknown posts", async () => {
+  await assert.rejects(approvalQueue.approve("missing"), /not found/);
+});
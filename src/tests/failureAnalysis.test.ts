@@ -0,0 +1,147 @@
+import test, { afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import * as database from "../database";
+import { detectFailureSpikes } from "../services/failureAnalysis";
+import { alertConfig } from "../config/alerts";
+import { FailureCounts } from "../types";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const now = new Date("2024-03-10T00:00:00Z");
+const windowEnd = now.getTime() - alertConfig.delayHours * HOUR_MS;
+
+// Counts per scope for the checked window and the baseline before it
+const fixtures: Record<
+  string,
+  { current: FailureCounts[]; baseline: FailureCounts[] }
+> = {
+  all: {
+    current: [
+      {
+        orders: 200,
+        refunded: 24,
+        expired: 4,
+        refundRate: 0.12,
+        expiryRate: 0.02,
+      },
+    ],
+    baseline: [
+      {
+        orders: 2000,
+        refunded: 80,
+        expired: 40,
+        refundRate: 0.04,
+        expiryRate: 0.02,
+      },
+    ],
+  },
+  chain: {
+    current: [
+      // Too few orders to be checked
+      {
+        group: "bitcoin",
+        orders: 10,
+        refunded: 5,
+        expired: 0,
+        refundRate: 0.5,
+        expiryRate: 0,
+      },
+      // Too few baseline orders, so compared against the overall baseline
+      {
+        group: "ethereum",
+        orders: 50,
+        refunded: 6,
+        expired: 1,
+        refundRate: 0.12,
+        expiryRate: 0.02,
+      },
+    ],
+    baseline: [
+      {
+        group: "bitcoin",
+        orders: 900,
+        refunded: 36,
+        expired: 18,
+        refundRate: 0.04,
+        expiryRate: 0.02,
+      },
+      {
+        group: "ethereum",
+        orders: 5,
+        refunded: 5,
+        expired: 0,
+        refundRate: 1,
+        expiryRate: 0,
+      },
+    ],
+  },
+  pair: {
+    current: [
+      // Twice the baseline, but less than 5 points higher
+      {
+        group: "bitcoin->ethereum",
+        orders: 100,
+        refunded: 7,
+        expired: 2,
+        refundRate: 0.07,
+        expiryRate: 0.02,
+      },
+    ],
+    baseline: [
+      {
+        group: "bitcoin->ethereum",
+        orders: 1000,
+        refunded: 30,
+        expired: 20,
+        refundRate: 0.03,
+        expiryRate: 0.02,
+      },
+    ],
+  },
+};
+
+afterEach(() => mock.restoreAll());
+
+test("detectFailureSpikes compares each scope against its baseline", async () => {
+  const getFailureCounts = mock.method(
+    database,
+    "getFailureCounts",
+    async (_from: Date, to: Date, groupBy?: string) => {
+      const scope = fixtures[groupBy || "all"];
+      return to.getTime() === windowEnd ? scope.current : scope.baseline;
+    },
+  );
+
+  const spikes = await detectFailureSpikes(now);
+
+  assert.equal(getFailureCounts.mock.callCount(), 6);
+  assert.deepEqual(getFailureCounts.mock.calls[0].arguments.slice(0, 2), [
+    new Date(windowEnd - alertConfig.windowHours * HOUR_MS),
+    new Date(windowEnd),
+  ]);
+  assert.deepEqual(
+    spikes.map(({ scope, kind, baselineRate }) => ({
+      scope,
+      kind,
+      baselineRate,
+    })),
+    [
+      { scope: "all", kind: "refund", baselineRate: 0.04 },
+      { scope: "chain ethereum", kind: "refund", baselineRate: 0.04 },
+    ],
+  );
+});
+
+test("detectFailureSpikes reports nothing without a spike", async () => {
+  mock.method(database, "getFailureCounts", async () => [
+    {
+      orders: 100,
+      refunded: 4,
+      expired: 2,
+      refundRate: 0.04,
+      expiryRate: 0.02,
+    },
+  ]);
+
+  assert.deepEqual(await detectFailureSpikes(now), []);
+});
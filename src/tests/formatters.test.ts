@@ -0,0 +1,89 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  formatMetricsToTweet,
+  formatRecapToTweet,
+  getTweetLength,
+  splitTweetText,
+} from "../utils/formatters";
+import { PeriodMetrics, SwapMetrics } from "../types";
+
+test("getTweetLength counts URLs as 23 and emoji as 2", () => {
+  assert.equal(getTweetLength("abc"), 3);
+  assert.equal(
+    getTweetLength("✨ https://garden.finance/a/very/long/path"),
+    26,
+  );
+  assert.equal(getTweetLength("📊"), 2);
+});
+
+test("splitTweetText keeps short text in one tweet", () => {
+  assert.deepEqual(splitTweetText("gm"), ["gm"]);
+});
+
+test("splitTweetText splits paragraphs and numbers the segments", () => {
+  const paragraph = "word ".repeat(40).trim();
+  const segments = splitTweetText(
+    [paragraph, paragraph, paragraph].join("\n\n"),
+  );
+
+  assert.equal(segments.length, 3);
+  segments.forEach((segment, index) => {
+    assert.ok(getTweetLength(segment) <= 280);
+    assert.ok(segment.endsWith(`\n\n${index + 1}/3`));
+  });
+});
+
+test("splitTweetText hard-splits words longer than a tweet", () => {
+  const word = "x".repeat(700);
+  const segments = splitTweetText(word, { numbered: false });
+
+  assert.ok(segments.length >= 3);
+  for (const segment of segments) {
+    assert.ok(getTweetLength(segment) <= 280);
+  }
+  assert.equal(segments.join(""), word);
+});
+
+test("formatMetricsToTweet drops optional lines to fit 280 characters", () => {
+  const metrics = {
+    allOrders: 1234567,
+    last24HoursSwaps: 12345,
+    last24HoursVolume: 123456789,
+    allTimeVolume: 1.23e9,
+    completionRate: 0.987,
+    users: { active: 12345, new: 1234 },
+    topChain: { name: "arbitrum", count: 123456 },
+  } as SwapMetrics;
+
+  const tweet = formatMetricsToTweet(metrics);
+  assert.ok(getTweetLength(tweet) <= 280);
+  assert.ok(tweet.includes("👥 Users: 12,345 (1,234 new)"));
+  assert.ok(!tweet.includes("Visit us at"));
+});
+
+test("formatRecapToTweet drops the top pair to fit 280 characters", () => {
+  const period: PeriodMetrics = {
+    from: "2024-03-04T00:00:00Z",
+    to: "2024-03-11T00:00:00Z",
+    orders: 123456,
+    fulfilledOrders: 120000,
+    refundedOrders: 3000,
+    expiredOrders: 456,
+    volume: 123456789,
+    completionRate: 0.972,
+    topChain: { name: "arbitrum", count: 65432 },
+    topAssetPair: { pair: "x".repeat(150), count: 12345 },
+  };
+
+  const tweet = formatRecapToTweet({
+    kind: "weekly",
+    current: period,
+    previous: period,
+    change: { orders: 0.05, volume: -0.1, completionRate: 0.01 },
+  });
+
+  assert.ok(getTweetLength(tweet) <= 280);
+  assert.ok(tweet.includes("🔝 Chain: "));
+  assert.ok(!tweet.includes("🔁 Pair: "));
+});
@@ -0,0 +1,56 @@
+import { AssetConfig, HashiraNetworkResponse } from "../../services/api";
+import { OrderAmounts } from "../../services/orderValuation";
+
+const asset = (
+  symbol: string,
+  tokenAddress: string,
+  atomicSwapAddress: string,
+  decimals: number,
+): AssetConfig => ({
+  name: symbol,
+  decimals,
+  symbol,
+  logo: "",
+  tokenAddress,
+  atomicSwapAddress,
+  min_amount: "0",
+  max_amount: "0",
+});
+
+// Asset registry of the chains the order fixtures use
+export const networkInfo: HashiraNetworkResponse = {
+  bitcoin: {
+    chainId: "bitcoin",
+    networkLogo: "",
+    explorer: "",
+    networkType: "mainnet",
+    name: "Bitcoin",
+    assetConfig: [asset("BTC", "primary", "primary", 8)],
+    identifier: "bitcoin",
+  },
+  ethereum: {
+    chainId: "1",
+    networkLogo: "",
+    explorer: "",
+    networkType: "mainnet",
+    name: "Ethereum",
+    assetConfig: [
+      asset("WBTC", "0xWbtc", "0xWbtcHtlc", 8),
+      asset("USDC", "0xUsdc", "0xUsdcHtlc", 6),
+    ],
+    identifier: "ethereum",
+  },
+};
+
+// 1.5 BTC swapped for 1.49 WBTC, both at $60,000
+export const btcToWbtcOrder: OrderAmounts = {
+  create_order_id: "btc-wbtc",
+  source_chain: "bitcoin",
+  source_asset: "primary",
+  destination_chain: "ethereum",
+  destination_asset: "0xwbtchtlc",
+  source_swap_amount: "150000000",
+  destination_swap_amount: "149000000",
+  input_token_price: 60000,
+  output_token_price: 60000,
+};
@@ -0,0 +1,25 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// Imported before the approval queue, which reads the file on load, so
+// tests never touch the bot's own pending posts
+export const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "approval-queue-"));
+process.env.PENDING_POSTS_FILE = path.join(tmpDir, "pending_posts.json");
+
+// A post the bot was publishing when it stopped
+export const interruptedPostId = "interrupted";
+fs.writeFileSync(
+  process.env.PENDING_POSTS_FILE,
+  JSON.stringify([
+    {
+      id: interruptedPostId,
+      account: "main",
+      text: "gm",
+      status: "approving",
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      reviewedAt: new Date().toISOString(),
+    },
+  ]),
+);
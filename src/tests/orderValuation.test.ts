@@ -0,0 +1,70 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  FIXED_DECIMALS,
+  sumOrderValues,
+  valueOrder,
+} from "../services/orderValuation";
+import { btcToWbtcOrder, networkInfo } from "./helpers/fixtures";
+
+test("valueOrder values both legs in token units and USD", () => {
+  const valuation = valueOrder(btcToWbtcOrder, networkInfo);
+
+  assert.equal(valuation.complete, true);
+  assert.equal(valuation.source.amount?.toString(), "1.5");
+  assert.equal(valuation.destination.usd?.toString(), "89400");
+  assert.equal(valuation.totalUsd.toString(), "179400");
+});
+
+test("valueOrder keeps every digit of 18-decimal amounts", () => {
+  const [asset] = Object.keys(FIXED_DECIMALS);
+  const valuation = valueOrder(
+    {
+      ...btcToWbtcOrder,
+      source_chain: "starknet",
+      source_asset: asset,
+      source_swap_amount: "1234567890123456789",
+      input_token_price: 1,
+    },
+    networkInfo,
+  );
+
+  assert.equal(valuation.source.amount?.toString(), "1.234567890123456789");
+});
+
+test("valueOrder leaves out legs that can't be valued", () => {
+  const valuation = valueOrder(
+    {
+      ...btcToWbtcOrder,
+      destination_asset: "0xunknown",
+      input_token_price: null,
+    },
+    networkInfo,
+  );
+
+  assert.equal(valuation.complete, false);
+  assert.equal(valuation.source.usd, null);
+  assert.equal(valuation.destination.usd, null);
+  assert.equal(valuation.reasons.length, 2);
+  assert.equal(valuation.totalUsd.toString(), "0");
+});
+
+test("sumOrderValues adds up the valued legs of every order", () => {
+  const total = sumOrderValues(
+    [
+      btcToWbtcOrder,
+      {
+        ...btcToWbtcOrder,
+        create_order_id: "usdc-wbtc",
+        source_chain: "ethereum",
+        source_asset: "0xUsdc",
+        source_swap_amount: "2500000000",
+        input_token_price: 1,
+        destination_swap_amount: null,
+      },
+    ],
+    networkInfo,
+  );
+
+  assert.equal(total.toString(), "181900");
+});
@@ -0,0 +1,106 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { validateRules } from "../services/rules";
+
+const whaleRule = {
+  name: "whale-order",
+  trigger: "order",
+  when: { volumeUsd: { gte: 100000 }, sourceChain: "bitcoin" },
+  template: "order",
+  copy: "whale",
+};
+
+test("validateRules returns valid rules", () => {
+  assert.deepEqual(validateRules({ rules: [whaleRule] }), [whaleRule]);
+  assert.deepEqual(
+    validateRules({
+      rules: [
+        {
+          name: "daily-summary",
+          trigger: "dailySummary",
+          template: "minimal",
+          copy: "default",
+        },
+      ],
+    }),
+    [
+      {
+        name: "daily-summary",
+        trigger: "dailySummary",
+        when: {},
+        template: "minimal",
+        copy: "default",
+      },
+    ],
+  );
+});
+
+test("validateRules requires a rules array", () => {
+  assert.throws(() => validateRules({}), /must contain a 'rules' array/);
+  assert.throws(() => validateRules([]), /must contain a 'rules' array/);
+});
+
+test("validateRules rejects unknown triggers, templates and copy", () => {
+  assert.throws(
+    () => validateRules({ rules: [{ ...whaleRule, name: "" }] }),
+    /Rule 0 is missing a name/,
+  );
+  assert.throws(
+    () => validateRules({ rules: [{ ...whaleRule, trigger: "constructor" }] }),
+    /unknown trigger 'constructor'/,
+  );
+  assert.throws(
+    () => validateRules({ rules: [{ ...whaleRule, template: "missing" }] }),
+    /unknown template 'missing'/,
+  );
+  assert.throws(
+    () => validateRules({ rules: [{ ...whaleRule, copy: "toString" }] }),
+    /unknown copy variant 'toString'/,
+  );
+});
+
+test("validateRules rejects templates rendering the wrong input", () => {
+  assert.throws(
+    () => validateRules({ rules: [{ ...whaleRule, template: "minimal" }] }),
+    /renders swap metrics and cannot be used for trigger order/,
+  );
+});
+
+test("validateRules rejects invalid conditions", () => {
+  assert.throws(
+    () => validateRules({ rules: [{ ...whaleRule, when: { allOrders: 5 } }] }),
+    /unknown fact 'allOrders' for trigger order/,
+  );
+  for (const condition of [{ above: 5 }, {}, true]) {
+    assert.throws(
+      () =>
+        validateRules({
+          rules: [{ ...whaleRule, when: { volumeUsd: condition } }],
+        }),
+      /invalid condition on 'volumeUsd'/,
+    );
+  }
+});
+
+test("validateRules rejects invalid operator values", () => {
+  const invalid: [string, Record<string, unknown>][] = [
+    ["in", { in: "bitcoin" }],
+    ["in", { in: ["bitcoin", { chain: "ethereum" }] }],
+    ["eq", { eq: true }],
+    ["eq", { eq: ["bitcoin"] }],
+    ["gt", { gt: "100" }],
+    ["gte", { gte: "abc" }],
+    ["lt", { lt: null }],
+    ["lte", { lte: Infinity }],
+  ];
+
+  for (const [operator, condition] of invalid) {
+    assert.throws(
+      () =>
+        validateRules({
+          rules: [{ ...whaleRule, when: { volumeUsd: condition } }],
+        }),
+      new RegExp(`invalid '${operator}' value on 'volumeUsd'`),
+    );
+  }
+});
@@ -0,0 +1,39 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { getNextRun } from "../services/scheduler";
+
+test("getNextRun finds the next daily run after the given date", () => {
+  const next = getNextRun("0 9 * * *", "UTC", new Date("2024-03-01T10:00:00Z"));
+  assert.equal(next?.toISOString(), "2024-03-02T09:00:00.000Z");
+});
+
+test("getNextRun is exclusive of the given date", () => {
+  const next = getNextRun(
+    "*/15 * * * *",
+    "UTC",
+    new Date("2024-03-01T10:15:00Z"),
+  );
+  assert.equal(next?.toISOString(), "2024-03-01T10:30:00.000Z");
+});
+
+test("getNextRun evaluates expressions in the job's time zone", () => {
+  const next = getNextRun(
+    "0 9 * * *",
+    "America/New_York",
+    new Date("2024-07-01T00:00:00Z"),
+  );
+  assert.equal(next?.toISOString(), "2024-07-01T13:00:00.000Z");
+});
+
+test("getNextRun finds rare schedules", () => {
+  const next = getNextRun(
+    "0 0 29 2 *",
+    "UTC",
+    new Date("2024-03-01T00:00:00Z"),
+  );
+  assert.equal(next?.toISOString(), "2028-02-29T00:00:00.000Z");
+});
+
+test("getNextRun returns null for invalid expressions", () => {
+  assert.equal(getNextRun("not a cron", "UTC"), null);
+});
@@ -0,0 +1,159 @@
+import test, { after, mock } from "node:test";
+import assert from "node:assert/strict";
+import { PoolClient } from "pg";
+import { db } from "../database/connection";
+import { queries } from "../database/queries";
+import { syncAssetDecimals } from "../database";
+import {
+  FIXED_DECIMALS,
+  OrderAmounts,
+  sumOrderValues,
+} from "../services/orderValuation";
+import { btcToWbtcOrder, networkInfo } from "./helpers/fixtures";
+
+const [fixedAsset] = Object.keys(FIXED_DECIMALS);
+
+// Orders as the volume used to be computed from, all of them fulfilled
+const valuedOrders: OrderAmounts[] = [
+  { ...btcToWbtcOrder, destination_asset: "0xWBTCHTLC" },
+  {
+    create_order_id: "usdc-fixed",
+    source_chain: "ethereum",
+    source_asset: "usdc",
+    destination_chain: "starknet",
+    destination_asset: fixedAsset,
+    source_swap_amount: "2500000000",
+    destination_swap_amount: "1234567890123456789",
+    input_token_price: 1,
+    output_token_price: 2024.5,
+  },
+  {
+    // Missing source price and unknown destination asset: nothing counts
+    ...btcToWbtcOrder,
+    create_order_id: "unpriced",
+    destination_asset: "0xunknown",
+    input_token_price: null,
+  },
+  {
+    // Zero price counts as missing
+    ...btcToWbtcOrder,
+    create_order_id: "zero-price",
+    source_asset: "BTC",
+    input_token_price: 0,
+  },
+];
+
+// Fixture tables shadow the orderbook tables for the test's session and
+// are dropped with it
+const createFixtureTables = `
+CREATE TEMP TABLE matched_orders (
+  create_order_id TEXT,
+  source_swap_id TEXT,
+  destination_swap_id TEXT,
+  created_at TIMESTAMP
+);
+CREATE TEMP TABLE create_orders (
+  create_id TEXT,
+  source_chain TEXT,
+  source_asset TEXT,
+  destination_chain TEXT,
+  destination_asset TEXT,
+  additional_data JSONB
+);
+CREATE TEMP TABLE swaps (
+  swap_id TEXT,
+  amount NUMERIC,
+  redeem_tx_hash TEXT,
+  refund_tx_hash TEXT
+);
+CREATE TEMP TABLE bot_asset_decimals (
+  chain TEXT NOT NULL,
+  asset TEXT NOT NULL,
+  decimals INTEGER NOT NULL,
+  PRIMARY KEY (chain, asset)
+);
+`;
+
+async function insertOrder(
+  client: PoolClient,
+  order: OrderAmounts,
+  fulfilled = true,
+): Promise<void> {
+  const id = order.create_order_id;
+  await client.query(
+    "INSERT INTO matched_orders VALUES ($1, $2, $3, NOW() - INTERVAL '1 hour')",
+    [id, `${id}-source`, `${id}-destination`],
+  );
+  await client.query(
+    "INSERT INTO create_orders VALUES ($1, $2, $3, $4, $5, $6)",
+    [
+      id,
+      order.source_chain,
+      order.source_asset,
+      order.destination_chain,
+      order.destination_asset,
+      {
+        ...(order.input_token_price !== null
+          ? { input_token_price: String(order.input_token_price) }
+          : {}),
+        output_token_price: String(order.output_token_price),
+      },
+    ],
+  );
+  await client.query(
+    "INSERT INTO swaps VALUES ($1, $2, $3, ''), ($4, $5, $6, '')",
+    [
+      `${id}-source`,
+      order.source_swap_amount,
+      "0xredeem",
+      `${id}-destination`,
+      order.destination_swap_amount,
+      fulfilled ? "0xredeem" : "",
+    ],
+  );
+}
+
+let client: PoolClient | undefined;
+
+after(async () => {
+  client?.release();
+  await db.pool.end();
+});
+
+test("volumeQuery matches the volume of valueOrder", async (t) => {
+  try {
+    client = await db.pool.connect();
+  } catch (error: any) {
+    t.skip(`no database reachable: ${error.message}`);
+    return;
+  }
+  const session = client;
+
+  await session.query(createFixtureTables);
+  // Decimals are synced through the same session to see its tables
+  mock.method(db, "query", (text: string, params?: any[]) =>
+    session.query(text, params),
+  );
+  await syncAssetDecimals(networkInfo);
+  mock.restoreAll();
+
+  for (const order of valuedOrders) {
+    await insertOrder(session, order);
+  }
+  // Unfulfilled orders are left out of both
+  await insertOrder(
+    session,
+    { ...valuedOrders[0], create_order_id: "unfulfilled" },
+    false,
+  );
+
+  const result = await session.query(queries.volumeQuery, [null, null]);
+  const volume = Number(result.rows[0].volume);
+  const expected = sumOrderValues(valuedOrders, networkInfo).toNumber();
+
+  assert.ok(expected > 0);
+  assert.ok(
+    Math.abs(volume - expected) < 1e-6,
+    `SQL volume ${volume} differs from valueOrder volume ${expected}`,
+  );
+});
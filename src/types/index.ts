@@ -20,6 +20,160 @@ export interface SwapMetrics {
     count: number;
   };
   completionRate: number;
+  refundedOrders: number;
+  expiredOrders: number;
+  leaderboards: Leaderboards;
+  users: UserMetrics;
+}
+
+// Users are the initiator source addresses of matched orders. Active,
+// new and returning users cover the last 24 hours.
+export interface UserMetrics {
+  total: number;
+  active: number;
+  new: number;
+  returning: number;
+  retention: RetentionCohort[];
+}
+
+// Users who placed their first order in a week, and the fraction of them
+// that placed an order in each week since. retention[0] is always 1.
+export interface RetentionCohort {
+  // Monday the cohort's week starts on, YYYY-MM-DD
+  week: string;
+  users: number;
+  retention: number[];
+}
+
+// A ranked source chain, destination chain or route. Share is the
+// fraction of the volume of all entries on the board, including those
+// below the top N.
+export interface LeaderboardEntry {
+  // Lower-cased chain, or "sourceChain:sourceAsset-destinationChain:destinationAsset"
+  key: string;
+  name: string;
+  count: number;
+  volume: number;
+  share: number;
+}
+
+export type LeaderboardKind = "source" | "destination" | "route";
+
+// Leaderboard entry as returned by the leaderboard queries. Columns that
+// are not part of the board's key are null.
+export interface LeaderboardRow {
+  source_chain: string | null;
+  source_asset: string | null;
+  destination_chain: string | null;
+  destination_asset: string | null;
+  count: string;
+  volume: string;
+  total_volume: string;
+}
+
+export interface Leaderboards {
+  sourceChains: LeaderboardEntry[];
+  destinationChains: LeaderboardEntry[];
+  routes: LeaderboardEntry[];
+}
+
+// Start (inclusive) and end (exclusive) of a reporting period
+export interface MetricsPeriod {
+  from: Date;
+  to: Date;
+}
+
+// Order outcomes and USD volume summed over daily rollups
+export interface RollupTotals {
+  orders: number;
+  fulfilled: number;
+  refunded: number;
+  expired: number;
+  volume: number;
+}
+
+export type TimeseriesGranularity = "hour" | "day" | "week";
+export type TimeseriesGroupBy = "chain" | "pair";
+
+export interface TimeseriesQuery {
+  from: Date;
+  to: Date;
+  granularity: TimeseriesGranularity;
+  groupBy?: TimeseriesGroupBy;
+}
+
+// Orders matched within one bucket. Group is the lower-cased source chain,
+// or "sourceChain:sourceAsset-destinationChain:destinationAsset" for pairs.
+export interface TimeseriesPoint {
+  bucket: string;
+  // Share of the bucket within the requested range, below 1 for a first
+  // or last bucket the range starts or ends inside of
+  coverage: number;
+  group?: string;
+  orders: number;
+  fulfilled: number;
+  completionRate: number;
+  refunded: number;
+  expired: number;
+  refundRate: number;
+  expiryRate: number;
+  volume: number;
+}
+
+// Refunded and expired orders among those matched in a window, in total
+// or for one source chain or route (same keys as timeseries groups)
+export interface FailureCounts {
+  group?: string;
+  orders: number;
+  refunded: number;
+  expired: number;
+  refundRate: number;
+  expiryRate: number;
+}
+
+export type FailureKind = "refund" | "expiry";
+
+// Refund or expiry rate of a scope that rose well above its baseline.
+// Scope is "all", "chain <chain>" or "route <route>".
+export interface FailureSpike {
+  scope: string;
+  kind: FailureKind;
+  rate: number;
+  baselineRate: number;
+  orders: number;
+}
+
+export interface FailureAlert extends FailureSpike {
+  alertedAt: string;
+}
+
+export interface PeriodMetrics {
+  from: string;
+  to: string;
+  orders: number;
+  fulfilledOrders: number;
+  refundedOrders: number;
+  expiredOrders: number;
+  volume: number;
+  completionRate: number;
+  topChain: SwapMetrics["topChain"];
+  topAssetPair: SwapMetrics["topAssetPair"];
+}
+
+export type RecapKind = "weekly" | "monthly";
+
+// Period metrics compared against the period before it. Order and volume
+// changes are relative (0.1 = +10%) and null when only the previous value
+// was zero; the completion rate change is in points (0.1 = +10 points).
+export interface RecapMetrics {
+  kind: RecapKind;
+  current: PeriodMetrics;
+  previous: PeriodMetrics;
+  change: {
+    orders: number | null;
+    volume: number | null;
+    completionRate: number;
+  };
 }
 
 export interface SuccessfulOrder {
@@ -40,27 +194,315 @@ export interface SuccessfulOrder {
   feeSaved?: number;
 }
 
+// Position of the order watcher in the matched orders stream. Orders
+// matched from createdAt on are scanned on every poll, and the ones
+// already handled are skipped: processed maps their ids to the time they
+// were matched.
+export interface OrderCursor {
+  createdAt: string;
+  processed: Record<string, string>;
+}
+
+// Runtime state of a scheduled job
+export interface JobStatus {
+  name: string;
+  cron: string;
+  timezone: string;
+  active: boolean;
+  inProgress: boolean;
+  lastRunAt?: string;
+  lastFinishedAt?: string;
+  nextRunAt?: string;
+  lastError?: string;
+}
+
+export type PendingPostStatus =
+  | "pending"
+  // Approved and being published
+  | "approving"
+  | "approved"
+  | "rejected"
+  | "expired"
+  | "failed";
+
+// Input a post was rendered from, kept in the post history
+export interface PostPayload {
+  orderId?: string;
+  // Snapshot of the metrics, recap or milestone shown in the post
+  metrics?: object;
+}
+
+// Template and copy variant a post was rendered with
+export interface PostVariant {
+  template?: string;
+  copy?: string;
+  payload?: PostPayload;
+}
+
+// Post waiting for review in the approval queue
+export interface PendingPost extends PostVariant {
+  id: string;
+  // Twitter account, or the channel name for other channels
+  account: string;
+  // Missing for posts queued before other channels were supported
+  channel?: PublisherName;
+  text: string;
+  imagePath?: string;
+  orderId?: string;
+  status: PendingPostStatus;
+  createdAt: string;
+  expiresAt: string;
+  reviewedAt?: string;
+  tweetId?: string;
+  // Retry queue entry that publishes the post after a failed attempt
+  retryId?: string;
+  error?: string;
+}
+
+export type RuleTrigger = "order" | "dailySummary";
+
+// Numeric comparison or string match applied to a single fact
+export type RuleCondition =
+  | string
+  | number
+  | {
+      eq?: string | number;
+      in?: (string | number)[];
+      gt?: number;
+      gte?: number;
+      lt?: number;
+      lte?: number;
+    };
+
+// Posting rule loaded from the rules file
+export interface PostingRule {
+  name: string;
+  trigger: RuleTrigger;
+  when: Record<string, RuleCondition>;
+  template: string;
+  copy: string;
+}
+
+// Rule selected for a post together with the facts it matched on
+export interface RuleMatch {
+  rule: PostingRule;
+  facts: Record<string, string | number | undefined>;
+}
+
+export type MilestoneMetric = "volume" | "orders";
+
+// Cumulative threshold crossed by allTimeVolume or allOrders
+export interface Milestone {
+  metric: MilestoneMetric;
+  value: number;
+  current: number;
+}
+
+export interface AnnouncedMilestone {
+  metric: MilestoneMetric;
+  value: number;
+  announcedAt: string;
+  tweetId?: string;
+}
+
 // Define types for token data
 export interface TokenData {
-  codeVerifier?: string;
-  state?: string;
   accessToken?: string;
   refreshToken?: string;
   expiresAt?: string;
   authenticated?: boolean;
 }
 
-// Define tweet log entry type
-export interface TweetLogEntry {
+// OAuth flow started from an admin session, completed by the callback
+export interface PendingOAuth {
+  account: string;
+  state: string;
+  codeVerifier: string;
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Username of the logged-in admin
+    admin?: string;
+    oauth?: PendingOAuth;
+  }
+}
+
+// Persistence backend for the OAuth tokens of every account
+export interface TokenStore {
+  load(): Promise<Record<string, TokenData>>;
+  save(tokens: Record<string, TokenData>): Promise<void>;
+}
+
+// Kinds of posts that can be routed to different accounts
+export type PostRoute =
+  | "order"
+  | "dailySummary"
+  | "weeklyRecap"
+  | "monthlyRecap"
+  | "detailedReport"
+  | "milestone"
+  | "mentionReply";
+
+// Channels posts can be published to
+export type PublisherName = "twitter" | "discord" | "telegram" | "slack";
+
+// Kinds of posts that can be published to every channel. Mention
+// replies only exist on Twitter.
+export type ChannelRoute = Exclude<PostRoute, "mentionReply">;
+
+// Kinds of messages for the team only, which are never tweeted
+export type InternalRoute = "failureAlert";
+
+export type PublishRoute = ChannelRoute | InternalRoute;
+
+// Message created by a channel. The id is missing for channels that
+// don't return one, such as Slack webhooks.
+export interface PublishedPost {
+  channel: PublisherName;
+  id?: string;
+  // Whether the post failed and the retry queue will publish it
+  queued?: boolean;
+}
+
+// Output channel that publishes text with images
+export interface Publisher {
+  name: PublisherName;
+  publish(
+    route: PublishRoute,
+    segments: ThreadSegment[],
+    variant: PostVariant,
+  ): Promise<PublishedPost[]>;
+}
+
+// Command parsed from a mention of the bot
+export type MentionCommand =
+  | { kind: "volume" }
+  | { kind: "stats"; days: number }
+  | { kind: "order"; orderId: string };
+
+// Persisted mention polling state
+export interface MentionState {
+  // Newest mention handled, per account
+  sinceIds: Record<string, string>;
+  // Time of the last reply, keyed by account and author id
+  lastReplies: Record<string, string>;
+}
+
+// File formats a template can render a single image as
+export type ImageFormat = "png" | "jpeg";
+
+// File formats animated templates can be encoded as
+export type AnimationFormat = "gif" | "mp4";
+
+export type PostHistoryStatus = "posted" | "dry-run" | "queued" | "failed";
+
+// Tweet recorded in the post history table
+export interface PostHistoryEntry extends PostVariant {
+  id: number;
+  // Missing for dry-run posts and posts that failed
+  tweetId?: string;
+  // Id of the first tweet when the entry is part of a thread
+  threadId?: string;
+  account: string;
+  text: string;
+  // SHA-256 of each attached image, comma separated
+  imageHash?: string;
+  status: PostHistoryStatus;
+  error?: string;
+  createdAt: string;
+}
+
+// Search over the post history. Every filter is optional.
+export interface PostHistoryFilters {
+  // Matches part of the text or an exact tweet id
+  text?: string;
+  orderId?: string;
+  account?: string;
+  template?: string;
+  status?: PostHistoryStatus;
+  from?: Date;
+  to?: Date;
+}
+
+// One tweet of a thread with the images attached to it
+export interface ThreadSegment {
+  text: string;
+  imagePaths?: string[];
+}
+
+// Manifest written next to each dry-run outbox entry
+export interface OutboxManifest {
+  id: string;
+  account: string;
+  text: string;
+  image?: string;
+  sourceImagePath?: string;
+  createdAt: string;
+  // Every tweet of the thread when the entry is a thread
+  thread?: { text: string; images: string[] }[];
+}
+
+export type RetryPostStatus = "queued" | "failed";
+
+// Post that failed with a transient error and waits to be retried
+export interface RetryPost extends PostVariant {
   id: string;
+  account: string;
+  kind: "tweet" | "thread";
+  // Segments left to post; for a partly posted thread, the ones after
+  // the tweet in replyTo
+  segments: ThreadSegment[];
+  replyTo?: string;
+  // First tweet of a partly posted thread
+  threadId?: string;
+  // Channel other than Twitter the post failed on, and the kind of post
+  // it is. The account then holds the channel name.
+  channel?: PublisherName;
+  route?: PublishRoute;
+  status: RetryPostStatus;
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: string;
+  lastError: string;
+}
+
+// Public metrics of a tweet at one point in time
+export interface EngagementSample {
+  fetchedAt: string;
+  impressions: number;
+  likes: number;
+  retweets: number;
+  replies: number;
+  quotes: number;
+  bookmarks: number;
+}
+
+// Engagement time series of a posted tweet
+export interface TrackedTweet extends PostVariant {
+  id: string;
+  account: string;
   message: string;
-  timestamp: string;
+  postedAt: string;
+  samples: EngagementSample[];
+}
+
+// Average engagement of the posts sharing a template or copy variant
+export interface VariantPerformance {
+  dimension: "template" | "copy";
+  variant: string;
+  posts: number;
+  avgImpressions: number;
+  avgEngagements: number;
+  engagementRate: number;
 }
 
-// Interface for tweet response
+// Interface for tweet response. A tweet that failed and was handed to
+// the retry queue has no id yet, only the id of its retry entry.
 export interface TweetResponse {
-  id: string;
+  id?: string;
   text: string;
+  retryId?: string;
 }
 
 export const getFormattedAsset = (asset: Asset, type: AssetMappingType) =>
@@ -83,3 +525,4 @@ export type AssetMappings = {
 export type comparisonMetric = { fee: number; time: number };
 
 export type AssetMappingType = keyof AssetMappings;
+
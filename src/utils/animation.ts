@@ -0,0 +1,134 @@
+import { spawn, spawnSync } from "child_process";
+import { createCanvas, CanvasRenderingContext2D } from "canvas";
+import { botConfig } from "../config/bot";
+import { AnimationFormat } from "../types";
+import { logger } from "./logger";
+
+export interface AnimationOptions {
+  width: number;
+  height: number;
+  format?: AnimationFormat;
+  // Animation length, excluding the pause on the final frame
+  seconds?: number;
+  // How long the final frame stays on screen
+  holdSeconds?: number;
+}
+
+// Encoder arguments per format. GIFs get a palette generated from the
+// frames themselves so gradients and brand colours don't band.
+const ENCODER_ARGS: Record<AnimationFormat, string[]> = {
+  gif: [
+    "-filter_complex",
+    "split[frames][copy];[copy]palettegen[palette];[frames][palette]paletteuse",
+    "-loop",
+    "0",
+  ],
+  mp4: [
+    "-c:v",
+    "libx264",
+    // Twitter only accepts 4:2:0 chroma subsampling
+    "-pix_fmt",
+    "yuv420p",
+    "-movflags",
+    "+faststart",
+  ],
+};
+
+/**
+ * Checks that ffmpeg can be run, so a missing binary shows up on startup
+ * rather than when an animated template first renders
+ * @returns Whether ffmpeg is available
+ */
+export function checkFfmpeg(): boolean {
+  const result = spawnSync(botConfig.media.ffmpegPath, ["-version"], {
+    stdio: "ignore",
+    timeout: 10000,
+  });
+  if (result.error || result.status !== 0) {
+    logger.warn(
+      `ffmpeg not found at '${botConfig.media.ffmpegPath}'. Animated templates will fail until it is installed or FFMPEG_PATH is set.`,
+    );
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Renders an animation frame by frame on a canvas and encodes it with
+ * ffmpeg. The frame callback draws the whole frame for a progress value
+ * between 0 (first frame) and 1 (final frame).
+ * @param basePath Output path without the file extension
+ * @returns The path of the encoded animation
+ */
+export async function renderAnimation(
+  drawFrame: (ctx: CanvasRenderingContext2D, progress: number) => void,
+  basePath: string,
+  options: AnimationOptions,
+): Promise<string> {
+  const {
+    width,
+    height,
+    format = botConfig.media.animationFormat,
+    seconds = botConfig.media.animationSeconds,
+    holdSeconds = 2,
+  } = options;
+  const fps = botConfig.media.animationFps;
+  const frameCount = Math.max(2, Math.round(seconds * fps));
+  const holdFrames = Math.round(holdSeconds * fps);
+  const outputPath = `${basePath}.${format}`;
+
+  const ffmpeg = spawn(
+    botConfig.media.ffmpegPath,
+    [
+      "-y",
+      "-loglevel",
+      "error",
+      "-f",
+      "image2pipe",
+      "-framerate",
+      String(fps),
+      "-i",
+      "-",
+      ...ENCODER_ARGS[format],
+      outputPath,
+    ],
+    { stdio: ["pipe", "ignore", "pipe"] },
+  );
+
+  let stderr = "";
+  ffmpeg.stderr.on("data", (data) => (stderr += data));
+  // Write errors surface as ffmpeg's exit code
+  ffmpeg.stdin.on("error", () => {});
+  const finished = new Promise<void>((resolve, reject) => {
+    ffmpeg.on("error", reject);
+    ffmpeg.on("close", (code) =>
+      code === 0
+        ? resolve()
+        : reject(new Error(`ffmpeg exited with code ${code}: ${stderr}`)),
+    );
+  });
+
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+
+  try {
+    for (let frame = 0; frame < frameCount + holdFrames; frame++) {
+      drawFrame(ctx, Math.min(1, frame / (frameCount - 1)));
+      // Wait for ffmpeg to drain its input instead of buffering every frame
+      if (!ffmpeg.stdin.write(canvas.toBuffer("image/png"))) {
+        await Promise.race([
+          new Promise((resolve) => ffmpeg.stdin.once("drain", resolve)),
+          finished,
+        ]);
+      }
+    }
+  } finally {
+    ffmpeg.stdin.end();
+  }
+
+  await finished;
+  logger.info(
+    `Rendered ${frameCount + holdFrames} frames as ${format}: ${outputPath}`,
+  );
+  return outputPath;
+}
@@ -1,4 +1,11 @@
-import { SwapMetrics } from "../types";
+import {
+  LeaderboardEntry,
+  Milestone,
+  PeriodMetrics,
+  RecapMetrics,
+  SuccessfulOrder,
+  SwapMetrics,
+} from "../types";
 import { logger } from "./logger";
 // ======================================================================
 // MAIN FORMATTING FUNCTIONS
@@ -6,7 +13,8 @@ import { logger } from "./logger";
 
 /**
  * Formats swap metrics data into a well-structured tweet
- * that fits within Twitter's character limit
+ * that fits within Twitter's character limit. Optional lines are dropped,
+ * least important first, while the tweet is too long.
  */
 export function formatMetricsToTweet(metrics: SwapMetrics): string {
   const date = new Date().toLocaleDateString();
@@ -20,21 +28,31 @@ export function formatMetricsToTweet(metrics: SwapMetrics): string {
   // Format completion rate as percentage
   const completionRatePercent = (metrics.completionRate * 100).toFixed(1);
 
-  const tweet = [
-    `📊 SWAP SUMMARY (${date})`,
-    "",
-    `📈 Orders: ${formattedLast24HoursSwaps} in 24h (${formattedAllOrders} total)`,
-    `💰 Volume: ${formattedLast24HoursVolume} (${formattedAllTimeVolume} total)`,
-    `🎯 Success rate: ${completionRatePercent}%`,
-    `🔝 Chain: ${formatChainName(metrics.topChain.name)} (${formatNumber(metrics.topChain.count)})`,
-    `Visit us at 👇`,
-    "",
-    `🌐 #DeFi #CrossChain #Crypto #Garden`,
-    `✨ https://garden.finance`,
-  ].join("\n");
+  const tweet = fitTweetLines([
+    { text: `📊 SWAP SUMMARY (${date})` },
+    { text: "" },
+    {
+      text: `📈 Orders: ${formattedLast24HoursSwaps} in 24h (${formattedAllOrders} total)`,
+    },
+    {
+      text: `💰 Volume: ${formattedLast24HoursVolume} (${formattedAllTimeVolume} total)`,
+    },
+    { text: `🎯 Success rate: ${completionRatePercent}%` },
+    {
+      text: `👥 Users: ${formatNumber(metrics.users.active)} (${formatNumber(metrics.users.new)} new)`,
+      rank: 4,
+    },
+    {
+      text: `🔝 Chain: ${formatChainName(metrics.topChain.name)} (${formatNumber(metrics.topChain.count)})`,
+      rank: 3,
+    },
+    { text: `Visit us at 👇\n`, rank: 1 },
+    { text: `🌐 #DeFi #CrossChain #Crypto #Garden`, rank: 2 },
+    { text: `✨ https://garden.finance` },
+  ]);
 
   // Log the character count for debugging
-  logger.info(`Tweet character count: ${tweet.length}`);
+  logger.info(`Tweet character count: ${getTweetLength(tweet)}`);
 
   return tweet;
 }
@@ -68,12 +86,203 @@ export function formatDetailedMetrics(metrics: SwapMetrics): string {
       metrics.topAssetPair.count,
     )} orders)`,
     "",
+    "👥 USERS",
+    `   • Total Users: ${formatNumber(metrics.users.total)}`,
+    `   • Active in 24h: ${formatNumber(metrics.users.active)} (${formatNumber(
+      metrics.users.new,
+    )} new, ${formatNumber(metrics.users.returning)} returning)`,
+    ...metrics.users.retention
+      .filter((cohort) => cohort.retention.length > 1)
+      .map(
+        (cohort) =>
+          `   • Week of ${cohort.week}: ${formatNumber(
+            cohort.users,
+          )} users, ${formatPercentage(cohort.retention[1])} back the next week`,
+      ),
+    "",
+    "🏆 TOP SOURCE CHAINS",
+    ...formatLeaderboard(metrics.leaderboards.sourceChains),
+    "",
+    "🎯 TOP DESTINATION CHAINS",
+    ...formatLeaderboard(metrics.leaderboards.destinationChains),
+    "",
+    "🔁 TOP ROUTES",
+    ...formatLeaderboard(metrics.leaderboards.routes),
+    "",
     "🌐 #DeFi #CrossChain #Crypto #Blockchain #Garden",
   ].join("\n");
 
   return summary;
 }
 
+/**
+ * Formats a short daily summary that leaves room for the image
+ */
+export function formatCompactMetricsTweet(metrics: SwapMetrics): string {
+  return [
+    `📊 ${formatNumber(metrics.last24HoursSwaps)} swaps · ${formatCurrency(metrics.last24HoursVolume)} in the last 24h`,
+    `🎯 ${formatPercentage(metrics.completionRate)} success rate`,
+    `✨ https://garden.finance`,
+  ].join("\n");
+}
+
+/**
+ * Formats ranked leaderboard entries, one per line, e.g.
+ * "1. Bitcoin · $1.20M (45.0%) · 120 orders"
+ */
+export function formatLeaderboard(entries: LeaderboardEntry[]): string[] {
+  return entries.map(
+    (entry, index) =>
+      `${index + 1}. ${entry.name} · ${formatCurrency(entry.volume)} (${formatPercentage(entry.share)}) · ${formatNumber(entry.count)} orders`,
+  );
+}
+
+/**
+ * Formats the top routes and source chains as a single tweet. Routes at
+ * the bottom of the board are dropped until the tweet fits.
+ */
+export function formatLeaderboardTweet(metrics: SwapMetrics): string {
+  const { routes, sourceChains } = metrics.leaderboards;
+  const chains = sourceChains
+    .map(
+      (entry) =>
+        `${formatChainName(entry.name)} ${formatPercentage(entry.share)}`,
+    )
+    .join(" · ");
+
+  const build = (routeCount: number) =>
+    [
+      `🏆 TOP ROUTES BY VOLUME`,
+      "",
+      ...routes
+        .slice(0, routeCount)
+        .map(
+          (entry, index) =>
+            `${index + 1}. ${entry.name} · ${formatCurrency(entry.volume)} (${formatPercentage(entry.share)})`,
+        ),
+      "",
+      `🔝 Chains: ${chains || "none yet"}`,
+      `✨ https://garden.finance`,
+    ].join("\n");
+
+  let routeCount = routes.length;
+  while (
+    routeCount > 1 &&
+    getTweetLength(build(routeCount)) > TWEET_MAX_LENGTH
+  ) {
+    routeCount--;
+  }
+  return build(routeCount);
+}
+
+/**
+ * Formats a single high-volume order announcement
+ */
+export function formatOrderToTweet(order: SuccessfulOrder): string {
+  return `New high-volume swap: ${formatCurrency(order.volume)} from ${order.source_chain} to ${order.destination_chain}\nSaved: ${order.timeSaved} & ${formatCurrency(order.feeSaved || 0)} compared to other services`;
+}
+
+/**
+ * Formats a high-volume order as a whale alert
+ */
+export function formatWhaleOrderTweet(order: SuccessfulOrder): string {
+  return [
+    `🐳 WHALE ALERT!`,
+    `💰 ${formatCurrency(order.volume)}`,
+    `🔄 ${formatChainName(order.source_chain)} → ${formatChainName(order.destination_chain)}`,
+    `⏱️ Saved ${order.timeSaved} & ${formatCurrency(order.feeSaved || 0)} vs other bridges`,
+    `#DeFi #CrossChain #Crypto #Garden`,
+  ].join("\n");
+}
+
+/**
+ * Formats a weekly or monthly recap with changes versus the previous period
+ */
+export function formatRecapToTweet(recap: RecapMetrics): string {
+  const { current, change } = recap;
+  const title = recap.kind === "weekly" ? "WEEKLY RECAP" : "MONTHLY RECAP";
+
+  const tweet = fitTweetLines([
+    { text: `📅 ${title} (${formatPeriod(current.from, current.to)})` },
+    { text: "" },
+    {
+      text: `📈 Orders: ${formatNumber(current.orders)} (${formatChange(change.orders)})`,
+    },
+    {
+      text: `💰 Volume: ${formatCurrency(current.volume)} (${formatChange(change.volume)})`,
+    },
+    {
+      text: `🎯 Success rate: ${formatPercentage(current.completionRate)} (${formatPointChange(change.completionRate)})`,
+    },
+    {
+      text: `🔝 Chain: ${formatChainName(current.topChain.name)} (${formatNumber(current.topChain.count)})`,
+      rank: 2,
+    },
+    {
+      text: `🔁 Pair: ${current.topAssetPair.pair} (${formatNumber(current.topAssetPair.count)})`,
+      rank: 1,
+    },
+    { text: "" },
+    { text: `✨ https://garden.finance` },
+  ]);
+
+  logger.info(`Recap tweet character count: ${getTweetLength(tweet)}`);
+
+  return tweet;
+}
+
+/**
+ * Formats a milestone value, e.g. "$10M" for volume or "100K" for orders
+ */
+export function formatMilestoneValue(milestone: Milestone): string {
+  const compact = new Intl.NumberFormat("en-US", {
+    notation: "compact",
+    maximumFractionDigits: 1,
+  }).format(milestone.value);
+
+  return milestone.metric === "volume" ? `$${compact}` : compact;
+}
+
+/**
+ * Formats a one-off celebration tweet for a crossed milestone
+ */
+export function formatMilestoneToTweet(milestone: Milestone): string {
+  const headline =
+    milestone.metric === "volume"
+      ? `${formatMilestoneValue(milestone)} in total volume bridged through Garden!`
+      : `${formatMilestoneValue(milestone)} swaps completed on Garden!`;
+
+  return [
+    `🎉 MILESTONE UNLOCKED`,
+    "",
+    `🚀 ${headline}`,
+    `🙏 Thank you to everyone swapping with us.`,
+    "",
+    `🌐 #DeFi #CrossChain #Crypto #Garden`,
+    `✨ https://garden.finance`,
+  ].join("\n");
+}
+
+/**
+ * Copy variants that posting rules can pick, keyed by variant name
+ */
+export const metricsCopyVariants: Record<
+  string,
+  (metrics: SwapMetrics) => string
+> = {
+  default: formatMetricsToTweet,
+  compact: formatCompactMetricsTweet,
+  leaderboard: formatLeaderboardTweet,
+};
+
+export const orderCopyVariants: Record<
+  string,
+  (order: SuccessfulOrder) => string
+> = {
+  default: formatOrderToTweet,
+  whale: formatWhaleOrderTweet,
+};
+
 /**
  * Formats high-value orders into a tweet-friendly format
  * Focuses on a single high-value order with detailed information
@@ -124,6 +333,215 @@ export function formatDetailedMetrics(metrics: SwapMetrics): string {
 //   return result;
 // }
 
+// ======================================================================
+// MENTION REPLY FORMATTERS
+// ======================================================================
+
+/**
+ * Formats the reply to a "volume" mention
+ */
+export function formatVolumeReply(metrics: SwapMetrics): string {
+  return [
+    `💰 ${formatCurrency(metrics.last24HoursVolume)} bridged in the last 24h`,
+    `🏦 ${formatCurrency(metrics.allTimeVolume)} all-time volume`,
+  ].join("\n");
+}
+
+/**
+ * Formats the reply to a "stats <n>d" mention
+ */
+export function formatPeriodStatsReply(
+  period: PeriodMetrics,
+  days: number,
+): string {
+  return [
+    `📊 Last ${days} days (${formatPeriod(period.from, period.to)})`,
+    `📈 ${formatNumber(period.orders)} orders · ${formatCurrency(period.volume)} volume`,
+    `🎯 ${formatPercentage(period.completionRate)} success rate`,
+    `🔝 ${formatChainName(period.topChain.name)} was the top chain`,
+  ].join("\n");
+}
+
+/**
+ * Formats the reply to an "order <id>" mention
+ */
+export function formatOrderReply(order: SuccessfulOrder): string {
+  const lines = [
+    `🔄 ${formatCurrency(order.volume)} from ${formatChainName(order.source_chain)} to ${formatChainName(order.destination_chain)}`,
+  ];
+  if (order.timeSaved) {
+    lines.push(
+      `⏱️ Saved ${order.timeSaved} & ${formatCurrency(order.feeSaved || 0)} vs other bridges`,
+    );
+  }
+  lines.push(`✨ https://garden.finance/orders/${order.create_order_id}`);
+  return lines.join("\n");
+}
+
+// ======================================================================
+// THREAD FORMATTERS
+// ======================================================================
+
+const TWEET_MAX_LENGTH = 280;
+const TWEET_URL_LENGTH = 23;
+
+/**
+ * Approximates Twitter's weighted length: URLs count as 23 characters and
+ * characters outside the basic ranges (emoji, CJK) count as two
+ */
+export function getTweetLength(text: string): number {
+  const withoutUrls = text.replace(/https?:\/\/\S+/g, "");
+  const urlCount = (text.match(/https?:\/\/\S+/g) || []).length;
+
+  let length = urlCount * TWEET_URL_LENGTH;
+  for (const char of withoutUrls) {
+    length += char.codePointAt(0)! <= 0x10ff ? 1 : 2;
+  }
+  return length;
+}
+
+// Line of a tweet. Optional lines carry a rank; the lowest ranks are
+// dropped first.
+interface TweetLine {
+  text: string;
+  rank?: number;
+}
+
+/**
+ * Joins the lines of a tweet, dropping optional lines until it fits
+ */
+function fitTweetLines(lines: TweetLine[]): string {
+  const maxRank = Math.max(0, ...lines.map((line) => line.rank || 0));
+  const build = (dropped: number) =>
+    lines
+      .filter((line) => !line.rank || line.rank > dropped)
+      .map((line) => line.text)
+      .join("\n");
+
+  let dropped = 0;
+  while (
+    dropped < maxRank &&
+    getTweetLength(build(dropped)) > TWEET_MAX_LENGTH
+  ) {
+    dropped++;
+  }
+  return build(dropped);
+}
+
+/**
+ * Cuts a word that is too long for a line budget on its own into pieces
+ * that fit
+ */
+function splitLongWord(word: string, maxLength: number): string[] {
+  if (getTweetLength(word) <= maxLength) {
+    return [word];
+  }
+
+  const pieces: string[] = [];
+  let current = "";
+  for (const char of word) {
+    if (current && getTweetLength(current + char) > maxLength) {
+      pieces.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  if (current) {
+    pieces.push(current);
+  }
+  return pieces;
+}
+
+/**
+ * Splits a piece of text that is too long for a single line budget into
+ * word-sized chunks, cutting words that don't fit a chunk of their own
+ */
+function splitLongLine(line: string, maxLength: number): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  const words = line
+    .split(" ")
+    .flatMap((word) => splitLongWord(word, maxLength));
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (getTweetLength(candidate) <= maxLength || !current) {
+      current = candidate;
+    } else {
+      chunks.push(current);
+      current = word;
+    }
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * Splits long formatter output into tweet-sized segments. Paragraphs are
+ * kept together where possible, then lines, and words only as a last
+ * resort. Numbered segments get a "1/3" suffix.
+ */
+export function splitTweetText(
+  text: string,
+  options: { maxLength?: number; numbered?: boolean } = {},
+): string[] {
+  const { maxLength = TWEET_MAX_LENGTH, numbered = true } = options;
+
+  if (getTweetLength(text) <= maxLength) {
+    return [text];
+  }
+
+  // Leave room for a "\n\n12/12" suffix
+  const budget = numbered ? maxLength - 7 : maxLength;
+  const segments: string[] = [];
+  let current = "";
+
+  const push = (piece: string, separator: string) => {
+    const candidate = current ? `${current}${separator}${piece}` : piece;
+    if (getTweetLength(candidate) <= budget) {
+      current = candidate;
+      return true;
+    }
+    return false;
+  };
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    if (push(paragraph, "\n\n")) continue;
+    if (current) {
+      segments.push(current);
+      current = "";
+    }
+    if (push(paragraph, "\n\n")) continue;
+
+    // Paragraph does not fit a tweet of its own: fall back to lines
+    for (const line of paragraph.split("\n")) {
+      if (push(line, "\n")) continue;
+      if (current) {
+        segments.push(current);
+        current = "";
+      }
+      if (push(line, "\n")) continue;
+
+      const chunks = splitLongLine(line, budget);
+      segments.push(...chunks.slice(0, -1));
+      current = chunks[chunks.length - 1] || "";
+    }
+  }
+
+  if (current) {
+    segments.push(current);
+  }
+
+  return numbered
+    ? segments.map(
+        (segment, index) => `${segment}\n\n${index + 1}/${segments.length}`,
+      )
+    : segments;
+}
+
 // ======================================================================
 // NUMBER AND CURRENCY FORMATTERS
 // ======================================================================
@@ -169,6 +587,33 @@ export function formatPercentage(num: number): string {
   }).format(num);
 }
 
+/**
+ * Formats a relative change as a signed percentage with an arrow,
+ * e.g. "▲ 12.5%", or "new" when there is no previous value
+ */
+export function formatChange(change: number | null): string {
+  if (change === null) {
+    return "new";
+  }
+  if (change === 0) {
+    return formatPercentage(0);
+  }
+  const arrow = change > 0 ? "▲" : "▼";
+  return `${arrow} ${formatPercentage(Math.abs(change))}`;
+}
+
+/**
+ * Formats a change between two rates in percentage points with an
+ * arrow, e.g. "▲ 2.5 pts"
+ */
+export function formatPointChange(change: number): string {
+  const points = `${(Math.abs(change) * 100).toFixed(1)} pts`;
+  if (points === "0.0 pts") {
+    return points;
+  }
+  return `${change > 0 ? "▲" : "▼"} ${points}`;
+}
+
 // ======================================================================
 // BLOCKCHAIN AND TIME FORMATTERS
 // ======================================================================
@@ -207,6 +652,19 @@ function calculateTimeDifference(createdAt: string): string {
   }
 }
 
+/**
+ * Formats a period as "Mar 3 – Mar 9", treating the end as exclusive
+ */
+export function formatPeriod(from: string, to: string): string {
+  const options: Intl.DateTimeFormatOptions = {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  };
+  const end = new Date(new Date(to).getTime() - 1);
+  return `${new Date(from).toLocaleDateString("en-US", options)} – ${end.toLocaleDateString("en-US", options)}`;
+}
+
 function formatUSD(num: number): string {
   return new Intl.NumberFormat("en-US", {
     style: "currency",
@@ -2,7 +2,8 @@ import { SuccessfulOrder, SwapMetrics } from "../types";
 import { generateImage } from "../templates";
 import { logger } from "./logger";
 
-export type TemplateName = "minimal" | "standard" | "order";
+export type TemplateName =
+  "minimal" | "standard" | "order" | "counter" | "leaderboard";
 
 /**
  * Generates a metrics image based on the provided swap metrics and template
@@ -1,8 +1,13 @@
 import fs from "fs";
 import request from "request";
 import { logger } from "./logger";
-import { TokenData, TweetLogEntry } from "../types";
-import path from "path";
+import { TokenData } from "../types";
+import { twitterConfig } from "../config/twitter";
+import {
+  assertTokenStoreConfigured,
+  getTokenStore,
+  migratePlaintextTokens,
+} from "../services/tokenStore";
 
 /**
  * Downloads a file from a URI to a local file
@@ -20,49 +25,47 @@ export function download(
   });
 }
 
-export const DATA_FILE: string = path.join(__dirname, "..", "tokens.json");
-export const TWEET_LOG_FILE: string = path.join(
-  __dirname,
-  "..",
-  "tweet_log.json",
-);
+// OAuth tokens of every account, keyed by account name.
+// Populated from the token store by loadTokenData on startup.
+export let tokenData: Record<string, TokenData> = {};
 
-export const callbackURL: string = "http://localhost:3000/callback";
-export let tokenData: TokenData = {};
-export let tweetLog: TweetLogEntry[] = [];
-try {
-  if (fs.existsSync(DATA_FILE)) {
-    const data = fs.readFileSync(DATA_FILE, "utf8");
-    tokenData = JSON.parse(data);
-    logger.info("Loaded existing tokens from file");
-  }
-} catch (error) {
-  logger.error("Error reading token data:", error);
-}
-
-try {
-  if (fs.existsSync(TWEET_LOG_FILE)) {
-    tweetLog = JSON.parse(fs.readFileSync(TWEET_LOG_FILE, "utf8"));
+/**
+ * Returns the token data of an account, creating an empty entry for
+ * accounts that have not been authenticated yet
+ */
+export const getTokenData = (account: string): TokenData => {
+  if (!tokenData[account]) {
+    tokenData[account] = {};
   }
-} catch (error) {
-  logger.error("Error reading tweet log:", error);
-}
-
-export const saveTokenData = (): void => {
-  fs.writeFileSync(DATA_FILE, JSON.stringify(tokenData, null, 2));
-  logger.info("Tokens saved to file");
+  return tokenData[account];
 };
 
-export const addToTweetLog = (message: string, tweetId: string): void => {
-  tweetLog.push({
-    id: tweetId,
-    message,
-    timestamp: new Date().toISOString(),
-  });
-
-  if (tweetLog.length > 100) {
-    tweetLog = tweetLog.slice(-100);
-  }
+/**
+ * Loads the tokens of every account from the configured token store,
+ * migrating a plaintext tokens.json on first run
+ * @throws Error if TOKEN_ENCRYPTION_KEY is not set
+ */
+export const loadTokenData = async (): Promise<void> => {
+  assertTokenStoreConfigured();
+  const store = getTokenStore();
+  const stored = await store.load();
+  tokenData = (await migratePlaintextTokens(store, stored)) || stored;
+  logger.info(
+    `Loaded tokens for ${Object.keys(tokenData).length} accounts from the ${twitterConfig.tokenStore.backend} token store`,
+  );
+};
 
-  fs.writeFileSync(TWEET_LOG_FILE, JSON.stringify(tweetLog, null, 2));
+export const saveTokenData = async (): Promise<void> => {
+  await getTokenStore().save(tokenData);
+  logger.info("Tokens saved to token store");
 };
+
+/**
+ * Escapes text for use in HTML content and attribute values
+ */
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");